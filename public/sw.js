@@ -1,7 +1,11 @@
 // Service worker for Thames Tides
-// Purpose: ensure the app always loads fresh content when opened from homescreen
+// Purpose: ensure the app always loads fresh content when opened from homescreen,
+// and keep the last tide data around for when the river bank has no signal
 
 const CACHE_NAME = 'thames-tides-v1';
+const DATA_CACHE = 'thames-tides-data-v1';
+const CACHED_AT_HEADER = 'sw-cached-at';
+const NETWORK_TIMEOUT_MS = 6000;
 
 // On install, skip waiting to activate immediately
 self.addEventListener('install', () => {
@@ -13,12 +17,88 @@ self.addEventListener('activate', (event) => {
   event.waitUntil(
     caches.keys().then((names) =>
       Promise.all(
-        names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name))
+        names
+          .filter((name) => name !== CACHE_NAME && name !== DATA_CACHE)
+          .map((name) => caches.delete(name))
       )
     ).then(() => self.clients.claim())
   );
 });
 
+// ── Tide data ──
+
+function isEAReadings(url) {
+  return url.hostname === 'environment.data.gov.uk' && url.pathname.endsWith('/readings');
+}
+
+function isEAStation(url) {
+  return url.hostname === 'environment.data.gov.uk' && url.pathname.includes('/id/stations/');
+}
+
+function isPredictionData(url) {
+  return url.pathname.includes('/data/predictions/') || url.pathname.includes('/data/harmonics/');
+}
+
+// Reading URLs carry a moving `since`; any cached batch for the station is
+// better than nothing offline, so key them without it
+function dataCacheKey(url) {
+  const key = new URL(url);
+  key.searchParams.delete('since');
+  key.searchParams.delete('_limit');
+  return key.toString();
+}
+
+// Stamp cached copies so the page can tell the user how old they are
+async function putStamped(key, response) {
+  const body = await response.blob();
+  const headers = new Headers(response.headers);
+  headers.set(CACHED_AT_HEADER, new Date().toISOString());
+  const cache = await caches.open(DATA_CACHE);
+  await cache.put(key, new Response(body, { status: response.status, statusText: response.statusText, headers }));
+}
+
+function fetchWithTimeout(request) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('timeout')), NETWORK_TIMEOUT_MS);
+    fetch(request).then(
+      (res) => { clearTimeout(timer); resolve(res); },
+      (err) => { clearTimeout(timer); reject(err); }
+    );
+  });
+}
+
+// Readings: network first (they're only useful fresh), cached copy when the
+// network fails or stalls. The fresh response goes to the page unstamped.
+async function readingsNetworkFirst(event) {
+  const key = dataCacheKey(event.request.url);
+  try {
+    const response = await fetchWithTimeout(event.request);
+    if (response.ok) event.waitUntil(putStamped(key, response.clone()));
+    return response;
+  } catch (err) {
+    const cached = await caches.match(key, { cacheName: DATA_CACHE });
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+// Station metadata and prediction files: serve the cached copy immediately
+// and refresh it in the background
+async function staleWhileRevalidate(event) {
+  const key = dataCacheKey(event.request.url);
+  const cached = await caches.match(key, { cacheName: DATA_CACHE });
+  const refresh = fetch(event.request).then((response) => {
+    if (response.ok) return putStamped(key, response.clone()).then(() => response);
+    return response;
+  });
+
+  if (cached) {
+    event.waitUntil(refresh.catch(() => {}));
+    return cached;
+  }
+  return refresh;
+}
+
 // Network-first strategy: always try the network, fall back to cache
 // This ensures fresh content on every open while still working offline briefly
 self.addEventListener('fetch', (event) => {
@@ -27,8 +107,19 @@ self.addEventListener('fetch', (event) => {
   // Skip non-GET requests
   if (request.method !== 'GET') return;
 
-  // For API calls, always go to network (no caching)
-  if (request.url.includes('/api/') || request.url.includes('environment.data.gov.uk') || request.url.includes('admiraltyapi')) {
+  const url = new URL(request.url);
+
+  if (isEAReadings(url)) {
+    event.respondWith(readingsNetworkFirst(event));
+    return;
+  }
+  if (isEAStation(url) || isPredictionData(url)) {
+    event.respondWith(staleWhileRevalidate(event));
+    return;
+  }
+
+  // Live Admiralty calls (dev proxy) and other APIs always go to network (no caching)
+  if (request.url.includes('/api/') || request.url.includes('admiraltyapi')) {
     return;
   }
 
@@ -46,3 +137,17 @@ self.addEventListener('fetch', (event) => {
       })
   );
 });
+
+// ── Tide alerts ──
+// Alerts are shown from here when the page is in the background; tapping one
+// brings the app back to the front (or opens it)
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => 'focus' in c);
+      if (client) return client.focus();
+      return self.clients.openWindow(self.registration.scope);
+    })
+  );
+});
@@ -1,11 +1,14 @@
 // Fetches Admiralty tidal predictions at build time (no CORS issue server-side)
-// and writes them to public/data/predictions.json for the production client.
+// and writes public/data/predictions/<stationId>.json for every station in
+// src/data/stations.json, for the production client.
 
-import { writeFileSync, mkdirSync } from 'fs';
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
 
 const ADMIRALTY_BASE = 'https://admiraltyapi.azure-api.net/uktidalapi/api/V1';
-const STATION = '0113';
-const CD_TO_MAOD = -2.97;
+const OUT_DIR = 'public/data/predictions';
+const DURATION_DAYS = 3;
+
+const stations = JSON.parse(readFileSync(new URL('../src/data/stations.json', import.meta.url), 'utf8'));
 
 const apiKey = process.env.VITE_ADMIRALTY_API_KEY;
 if (!apiKey) {
@@ -13,28 +16,47 @@ if (!apiKey) {
   process.exit(0);
 }
 
-try {
-  const res = await fetch(
-    `${ADMIRALTY_BASE}/Stations/${STATION}/TidalEvents?duration=3`,
-    { headers: { 'Ocp-Apim-Subscription-Key': apiKey } }
-  );
+mkdirSync(OUT_DIR, { recursive: true });
+let failures = 0;
 
-  if (!res.ok) {
-    console.error(`Admiralty API returned ${res.status}`);
-    process.exit(1);
-  }
+for (const station of stations) {
+  try {
+    const generatedAt = new Date();
+    const res = await fetch(
+      `${ADMIRALTY_BASE}/Stations/${station.admiraltyStation}/TidalEvents?duration=${DURATION_DAYS}`,
+      { headers: { 'Ocp-Apim-Subscription-Key': apiKey } }
+    );
+
+    if (!res.ok) {
+      console.error(`${station.id}: Admiralty API returned ${res.status}`);
+      failures++;
+      continue;
+    }
+
+    const events = await res.json();
+    const predictions = events.map((e) => ({
+      type: e.EventType === 'HighWater' ? 'high' : 'low',
+      time: e.DateTime + 'Z',
+      level: +(e.Height + station.cdToMaod).toFixed(3),
+    }));
 
-  const events = await res.json();
-  const predictions = events.map((e) => ({
-    type: e.EventType === 'HighWater' ? 'high' : 'low',
-    time: e.DateTime + 'Z',
-    level: +(e.Height + CD_TO_MAOD).toFixed(3),
-  }));
-
-  mkdirSync('public/data', { recursive: true });
-  writeFileSync('public/data/predictions.json', JSON.stringify(predictions));
-  console.log(`Wrote ${predictions.length} predictions to public/data/predictions.json`);
-} catch (err) {
-  console.error('Failed to fetch predictions:', err);
-  process.exit(1);
+    const file = {
+      stationId: station.id,
+      admiraltyStation: station.admiraltyStation,
+      generatedAt: generatedAt.toISOString(),
+      start: predictions[0]?.time ?? null,
+      end: predictions[predictions.length - 1]?.time ?? null,
+      events: predictions,
+    };
+
+    writeFileSync(`${OUT_DIR}/${station.id}.json`, JSON.stringify(file));
+    console.log(`${station.id}: wrote ${predictions.length} predictions to ${OUT_DIR}/${station.id}.json`);
+  } catch (err) {
+    console.error(`${station.id}: failed to fetch predictions:`, err);
+    failures++;
+  }
 }
+
+// The client falls back to harmonic predictions per station, so only fail
+// the build when nothing could be fetched at all
+if (failures === stations.length) process.exit(1);
@@ -0,0 +1,104 @@
+// Fits harmonic constants to historical EA level readings (least squares) and
+// writes public/data/harmonics/<stationId>.json for the production client.
+//
+//   node scripts/fit-harmonics.mjs                     # fetch the last 30 days from EA
+//   node scripts/fit-harmonics.mjs --days 60           # longer record, more constituents
+//   node scripts/fit-harmonics.mjs --input scripts/fixtures/harmonics/  # offline: read <eaStation>.csv files
+//   node scripts/fit-harmonics.mjs --station richmond  # a single station
+//
+// CSV input uses the EA readings export layout: a header row with at least
+// `dateTime` and `value` columns.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs';
+import { join } from 'path';
+import { readCsv, cleanReadings, fitHarmonics } from './lib/fit.mjs';
+
+const EA_BASE = 'https://environment.data.gov.uk/flood-monitoring';
+const OUT_DIR = 'public/data/harmonics';
+const CHUNK_DAYS = 28; // keeps each EA request well under its 10000-row limit
+const MIN_READINGS = 96 * 3; // three days of 15-minute readings
+
+const stations = JSON.parse(readFileSync(new URL('../src/data/stations.json', import.meta.url), 'utf8'));
+
+function parseArgs(argv) {
+  const args = { days: 30, input: null, station: null };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--days') args.days = Number(argv[++i]);
+    else if (argv[i] === '--input') args.input = argv[++i];
+    else if (argv[i] === '--station') args.station = argv[++i];
+  }
+  return args;
+}
+
+// ── Reading sources ──
+
+// Each chunk's enddate day is the next one's startdate day, so boundary days
+// come back twice; cleanReadings() drops the repeats.
+async function fetchReadings(eaStation, days) {
+  const readings = [];
+  const end = Date.now();
+  for (let from = end - days * 86400000; from < end; from += CHUNK_DAYS * 86400000) {
+    const to = Math.min(from + CHUNK_DAYS * 86400000, end);
+    const url = `${EA_BASE}/id/stations/${eaStation}/readings?parameter=level&_sorted&_limit=10000`
+      + `&startdate=${new Date(from).toISOString().slice(0, 10)}&enddate=${new Date(to).toISOString().slice(0, 10)}`;
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`EA readings returned ${res.status}`);
+    const data = await res.json();
+    for (const r of data.items ?? []) readings.push({ time: Date.parse(r.dateTime), level: r.value });
+  }
+  return readings;
+}
+
+// ── Main ──
+
+const args = parseArgs(process.argv.slice(2));
+const targets = args.station ? stations.filter((s) => s.id === args.station) : stations;
+if (targets.length === 0) {
+  console.error(`Unknown station: ${args.station}`);
+  process.exit(1);
+}
+
+mkdirSync(OUT_DIR, { recursive: true });
+let failures = 0;
+
+for (const station of targets) {
+  try {
+    let readings;
+    if (args.input) {
+      const path = join(args.input, `${station.eaStation}.csv`);
+      if (!existsSync(path)) {
+        console.warn(`${station.id}: no ${path} — skipping`);
+        continue;
+      }
+      readings = readCsv(path);
+    } else {
+      readings = await fetchReadings(station.eaStation, args.days);
+    }
+
+    readings = cleanReadings(readings);
+
+    if (readings.length < MIN_READINGS) {
+      console.warn(`${station.id}: only ${readings.length} readings — skipping`);
+      continue;
+    }
+
+    const fit = fitHarmonics(readings);
+    const out = {
+      stationId: station.id,
+      eaStation: station.eaStation,
+      generatedAt: new Date().toISOString(),
+      ...fit,
+    };
+    writeFileSync(join(OUT_DIR, `${station.id}.json`), JSON.stringify(out));
+    console.log(
+      `${station.id}: ${Object.keys(fit.constituents).length} constituents from ${fit.samples} readings, rms ${fit.rmsResidual} m`
+    );
+  } catch (err) {
+    console.error(`${station.id}: fit failed:`, err.message ?? err);
+    failures++;
+  }
+}
+
+// Predictions fall back to the bundled constants, so even a total failure
+// (EA down) shouldn't break the build
+if (failures === targets.length) console.warn('No station could be fitted — the app will use its bundled constants');
@@ -0,0 +1,142 @@
+// Least-squares harmonic fitting for the build scripts: fit-harmonics.mjs
+// runs it against EA readings, test-fit.mjs against the fixture CSVs.
+
+import { readFileSync } from 'fs';
+import { constituentSpeed, constituentArguments } from './harmonics.mjs';
+
+// Constituents in order of importance for the Thames. Each is only fitted
+// when the record is long enough to separate it from those already chosen.
+const PRIORITY = ['M2', 'S2', 'K1', 'O1', 'M4', 'N2', 'MS4', 'MN4', 'M6', 'K2', 'P1', 'Q1', 'L2', 'NU2', 'MU2', '2N2', 'SSA', 'SA'];
+
+// ── Reading sources ──
+
+/** Readings from a CSV in the EA export layout: a header row with at least `dateTime` and `value`. */
+export function readCsv(path) {
+  const lines = readFileSync(path, 'utf8').trim().split(/\r?\n/);
+  const header = lines[0].split(',').map((h) => h.trim());
+  const timeCol = header.indexOf('dateTime');
+  const valueCol = header.indexOf('value');
+  if (timeCol < 0 || valueCol < 0) throw new Error(`${path}: expected dateTime and value columns`);
+
+  return lines.slice(1).map((line) => {
+    const cols = line.split(',');
+    return { time: Date.parse(cols[timeCol]), level: Number(cols[valueCol]) };
+  });
+}
+
+/** Drop unparseable rows and repeated timestamps, oldest first. */
+export function cleanReadings(readings) {
+  const byTime = new Map();
+  for (const r of readings) {
+    if (Number.isFinite(r.time) && Number.isFinite(r.level)) byTime.set(r.time, r);
+  }
+  return [...byTime.values()].sort((a, b) => a.time - b.time);
+}
+
+// ── Least squares ──
+
+function selectConstituents(recordHours) {
+  const chosen = [];
+  // The datum is a term of speed zero, so long-period tides need a full cycle too
+  const speeds = [0];
+  for (const name of PRIORITY) {
+    const speed = constituentSpeed(name);
+    // Rayleigh criterion: a full cycle of beat between any two constituents
+    const resolvable = speeds.every((other) => Math.abs(speed - other) * recordHours >= 360);
+    if (!resolvable) continue;
+    chosen.push(name);
+    speeds.push(speed);
+  }
+  return chosen;
+}
+
+// Solve A·x = b in place by Gaussian elimination with partial pivoting
+function solve(A, b) {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(A[row][col]) > Math.abs(A[pivot][col])) pivot = row;
+    }
+    [A[col], A[pivot]] = [A[pivot], A[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+    if (Math.abs(A[col][col]) < 1e-12) throw new Error('Singular system — record too short or gappy');
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = A[row][col] / A[col][col];
+      for (let k = col; k < n; k++) A[row][k] -= factor * A[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= A[row][k] * x[k];
+    x[row] = sum / A[row][row];
+  }
+  return x;
+}
+
+/** Fit datum and constituents to readings sorted by time (see cleanReadings). */
+export function fitHarmonics(readings) {
+  const start = readings[0].time;
+  const end = readings[readings.length - 1].time;
+  const ref = (start + end) / 2;
+  const names = selectConstituents((end - start) / 3600000);
+
+  const terms = names.map((name) => ({ name, speed: constituentSpeed(name), ...constituentArguments(name, ref) }));
+  const n = 1 + terms.length * 2;
+
+  // Accumulate the normal equations row by row — no need to hold the design matrix
+  const AtA = Array.from({ length: n }, () => new Array(n).fill(0));
+  const Atb = new Array(n).fill(0);
+  const row = new Array(n);
+
+  const designRow = (time) => {
+    const hours = (time - ref) / 3600000;
+    row[0] = 1;
+    terms.forEach((t, i) => {
+      const angle = (t.phase + t.speed * hours) * Math.PI / 180;
+      row[1 + i * 2] = t.f * Math.cos(angle);
+      row[2 + i * 2] = t.f * Math.sin(angle);
+    });
+    return row;
+  };
+
+  for (const r of readings) {
+    designRow(r.time);
+    for (let i = 0; i < n; i++) {
+      Atb[i] += row[i] * r.level;
+      for (let j = 0; j < n; j++) AtA[i][j] += row[i] * row[j];
+    }
+  }
+
+  const x = solve(AtA, Atb);
+
+  let sumSq = 0;
+  for (const r of readings) {
+    designRow(r.time);
+    let predicted = 0;
+    for (let i = 0; i < n; i++) predicted += row[i] * x[i];
+    sumSq += (r.level - predicted) ** 2;
+  }
+
+  const constituents = {};
+  terms.forEach((t, i) => {
+    const a = x[1 + i * 2];
+    const b = x[2 + i * 2];
+    const amplitude = Math.hypot(a, b);
+    const phase = ((Math.atan2(b, a) * 180 / Math.PI) % 360 + 360) % 360;
+    constituents[t.name] = [+amplitude.toFixed(3), +phase.toFixed(1)];
+  });
+
+  return {
+    datum: +x[0].toFixed(3),
+    constituents,
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
+    samples: readings.length,
+    rmsResidual: +Math.sqrt(sumSq / readings.length).toFixed(3),
+  };
+}
@@ -0,0 +1,88 @@
+// Harmonic constituent tables for the build scripts.
+// Node can't import the app's TypeScript, so this mirrors
+// src/utils/astronomy.ts and src/utils/harmonics.ts — keep them in step.
+
+const D2R = Math.PI / 180;
+const J2000_MS = Date.UTC(2000, 0, 1, 12, 0, 0);
+
+const RATES = { tau: 14.4920521, s: 0.5490165, h: 0.0410686, p: 0.0046418, p1: 0.0000020 };
+
+// [τ, s, h, p, p1] multipliers, extra phase, [nodal base, power]
+export const CONSTITUENTS = {
+  M2:  { doodson: [2, 0, 0, 0, 0],   offset: 0,   nodal: ['M2', 1] },
+  S2:  { doodson: [2, 2, -2, 0, 0],  offset: 0,   nodal: ['none', 1] },
+  N2:  { doodson: [2, -1, 0, 1, 0],  offset: 0,   nodal: ['M2', 1] },
+  K2:  { doodson: [2, 2, 0, 0, 0],   offset: 0,   nodal: ['K2', 1] },
+  L2:  { doodson: [2, 1, 0, -1, 0],  offset: 180, nodal: ['M2', 1] },
+  NU2: { doodson: [2, -1, 2, -1, 0], offset: 0,   nodal: ['M2', 1] },
+  MU2: { doodson: [2, -2, 2, 0, 0],  offset: 0,   nodal: ['M2', 1] },
+  '2N2': { doodson: [2, -2, 0, 2, 0], offset: 0,  nodal: ['M2', 1] },
+  K1:  { doodson: [1, 1, 0, 0, 0],   offset: 90,  nodal: ['K1', 1] },
+  O1:  { doodson: [1, -1, 0, 0, 0],  offset: -90, nodal: ['O1', 1] },
+  P1:  { doodson: [1, 1, -2, 0, 0],  offset: -90, nodal: ['none', 1] },
+  Q1:  { doodson: [1, -2, 0, 1, 0],  offset: -90, nodal: ['O1', 1] },
+  M4:  { doodson: [4, 0, 0, 0, 0],   offset: 0,   nodal: ['M2', 2] },
+  MS4: { doodson: [4, 2, -2, 0, 0],  offset: 0,   nodal: ['M2', 1] },
+  MN4: { doodson: [4, -1, 0, 1, 0],  offset: 0,   nodal: ['M2', 2] },
+  M6:  { doodson: [6, 0, 0, 0, 0],   offset: 0,   nodal: ['M2', 3] },
+  SA:  { doodson: [0, 0, 1, 0, 0],   offset: 0,   nodal: ['none', 1] },
+  SSA: { doodson: [0, 0, 2, 0, 0],   offset: 0,   nodal: ['none', 1] },
+};
+
+export function constituentSpeed(name) {
+  const d = CONSTITUENTS[name].doodson;
+  return d[0] * RATES.tau + d[1] * RATES.s + d[2] * RATES.h + d[3] * RATES.p + d[4] * RATES.p1;
+}
+
+function norm(deg) {
+  return ((deg % 360) + 360) % 360;
+}
+
+export function astronomicalArguments(time) {
+  const T = (time - J2000_MS) / 86400000 / 36525;
+  const s = norm(218.3164477 + 481267.88123421 * T);
+  const h = norm(280.46646 + 36000.76983 * T);
+  const p = norm(83.3532465 + 4069.0137287 * T);
+  const N = norm(125.04452 - 1934.136261 * T);
+  const p1 = norm(282.93735 + 1.71946 * T);
+  const utHours = (((time / 3600000) % 24) + 24) % 24;
+  const tau = norm(15 * utHours + 180 + h - s);
+  return { tau, s, h, p, N, p1 };
+}
+
+function nodalFactors(base, N) {
+  const n = N * D2R;
+  switch (base) {
+    case 'M2':
+      return { f: 1.0004 - 0.0373 * Math.cos(n) + 0.0002 * Math.cos(2 * n), u: -2.14 * Math.sin(n) };
+    case 'K1':
+      return {
+        f: 1.006 + 0.115 * Math.cos(n) - 0.0088 * Math.cos(2 * n) + 0.0006 * Math.cos(3 * n),
+        u: -8.86 * Math.sin(n) + 0.68 * Math.sin(2 * n) - 0.07 * Math.sin(3 * n),
+      };
+    case 'O1':
+      return {
+        f: 1.0089 + 0.1871 * Math.cos(n) - 0.0147 * Math.cos(2 * n) + 0.0014 * Math.cos(3 * n),
+        u: 10.8 * Math.sin(n) - 1.34 * Math.sin(2 * n) + 0.19 * Math.sin(3 * n),
+      };
+    case 'K2':
+      return {
+        f: 1.0241 + 0.2863 * Math.cos(n) + 0.0083 * Math.cos(2 * n) - 0.0015 * Math.cos(3 * n),
+        u: -17.74 * Math.sin(n) + 0.68 * Math.sin(2 * n) - 0.04 * Math.sin(3 * n),
+      };
+    default:
+      return { f: 1, u: 0 };
+  }
+}
+
+/** Nodal factor f and equilibrium phase V0 + u (degrees) of a constituent at `refTime`. */
+export function constituentArguments(name, refTime) {
+  const astro = astronomicalArguments(refTime);
+  const args = [astro.tau, astro.s, astro.h, astro.p, astro.p1];
+  const def = CONSTITUENTS[name];
+  const [base, power] = def.nodal;
+  const { f, u } = nodalFactors(base, astro.N);
+  let V = def.offset;
+  for (let i = 0; i < 5; i++) V += def.doodson[i] * args[i];
+  return { f: f ** power, phase: V + u * power };
+}
@@ -0,0 +1,202 @@
+// Renders the visual engine headlessly for a few fixture scenes and compares
+// each frame with a golden PNG, so changes to the look show up in review.
+//
+//   npm run test:visual            # compare against scripts/golden/
+//   npm run test:visual -- --update  # re-render the goldens after an intended change
+//   npm run test:visual -- --only particles-dark
+//
+// Runs under tsx so it can import the engine's TypeScript directly. The engine
+// is seeded, its clock frozen and the curve labels drawn in UTC, so the only
+// run-to-run differences left are font rasterisation on those labels, hence a
+// small tolerance.
+// Mismatches are written to visual-diff/ as <name>.actual.png and <name>.diff.png.
+
+import { createCanvas, loadImage, ImageData as CanvasImageData } from '@napi-rs/canvas';
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs';
+import { join } from 'path';
+
+// The tide-curve labels are in local time; pin it before the engine loads
+process.env.TZ = 'UTC';
+
+// Canvas 2D for the engine: it builds ImageData and OffscreenCanvas buffers
+globalThis.ImageData ??= CanvasImageData;
+globalThis.OffscreenCanvas ??= class {
+  constructor(width, height) {
+    return createCanvas(width, height);
+  }
+};
+
+const { renderFrame, resetLayers, setRequestedBackend, VISUAL_PRESETS } = await import('../src/engine/renderer.ts');
+const { seedEngine, setClock } = await import('../src/engine/random.ts');
+const { QUALITY_LEVELS, DEFAULT_QUALITY_LEVEL } = await import('../src/engine/quality.ts');
+const { harmonicLevel, harmonicEvents } = await import('../src/utils/harmonics.ts');
+const { DEFAULT_STATION, STATION_HARMONICS } = await import('../src/stations.ts');
+
+const GOLDEN_DIR = new URL('./golden/', import.meta.url);
+const DIFF_DIR = 'visual-diff';
+
+const WIDTH = 360;
+const HEIGHT = 640;
+const SEED = 20260319;
+const NOW = Date.UTC(2026, 2, 19, 9, 0); // just after low water on a spring tide
+const FPS = 30;
+
+const CHANNEL_TOLERANCE = 24; // per channel, 0..255
+const MAX_DIFFERENT = 0.0005; // fraction of pixels allowed past it
+
+// ── Fixtures ──
+
+const HOUR = 3600 * 1000;
+const harmonics = STATION_HARMONICS[DEFAULT_STATION.id];
+
+function readingsBefore(now) {
+  const readings = [];
+  for (let t = now - 12 * HOUR; t <= now; t += HOUR / 4) {
+    readings.push({ time: new Date(t), level: harmonicLevel(harmonics, t) + 0.08 });
+  }
+  return readings;
+}
+
+function tideAt(now) {
+  const rate = harmonicLevel(harmonics, now + HOUR / 2) - harmonicLevel(harmonics, now - HOUR / 2); // m/h
+  const tideState = Math.abs(rate) < 0.1 ? (rate > 0 ? 'high_slack' : 'low_slack') : rate > 0 ? 'rising' : 'falling';
+  return { currentLevel: harmonicLevel(harmonics, now) + 0.08, rateOfChange: rate, tideState };
+}
+
+function scene(overrides) {
+  return {
+    width: WIDTH,
+    height: HEIGHT,
+    dpr: 1,
+    ...tideAt(NOW),
+    readings: readingsBefore(NOW),
+    predictions: harmonicEvents(harmonics, NOW - 24 * HOUR, NOW + 72 * HOUR),
+    harmonics,
+    pointer: { x: 0, y: 0, active: false },
+    theme: 'dark',
+    themeBlend: 0,
+    stationId: DEFAULT_STATION.id,
+    timeOffset: 0,
+    pinnedTime: null,
+    dataConfidence: 1,
+    rangeFactor: 0.9,
+    barrierClosed: false,
+    navigationWindows: [],
+    quality: QUALITY_LEVELS[DEFAULT_QUALITY_LEVEL],
+    ...overrides,
+  };
+}
+
+const FIXTURES = [
+  { name: 'caustics-dark', preset: 'caustics', frames: 1, state: scene({}) },
+  { name: 'caustics-light', preset: 'caustics', frames: 1, state: scene({ theme: 'light', themeBlend: 1 }) },
+  {
+    name: 'particles-dark',
+    preset: 'particles',
+    frames: 45, // long enough to grow trails
+    state: scene({ pointer: { x: WIDTH / 2, y: HEIGHT / 2, active: true } }),
+  },
+  {
+    name: 'minimal-scrubbed',
+    preset: 'minimal',
+    frames: 1,
+    state: scene({
+      theme: 'light',
+      themeBlend: 1,
+      timeOffset: 3 * HOUR,
+      navigationWindows: [
+        { start: new Date(NOW + HOUR), end: new Date(NOW + 4 * HOUR), streams: ['flood', 'slack'], minDepth: 1.2 },
+      ],
+    }),
+  },
+];
+
+// ── Rendering ──
+
+function render({ preset, frames, state }) {
+  seedEngine(SEED);
+  setClock(() => NOW);
+  resetLayers();
+
+  const canvas = createCanvas(WIDTH, HEIGHT);
+  const ctx = canvas.getContext('2d');
+  for (let i = 0; i < frames; i++) {
+    renderFrame(ctx, { ...state, time: 10 + i / FPS }, VISUAL_PRESETS[preset].layers);
+  }
+  return canvas;
+}
+
+async function pixelsOf(png) {
+  const image = await loadImage(png);
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, image.width, image.height);
+}
+
+function compare(actual, golden) {
+  if (actual.width !== golden.width || actual.height !== golden.height) return { different: 1, diff: null };
+  const diff = new CanvasImageData(actual.width, actual.height);
+  let count = 0;
+  for (let i = 0; i < actual.data.length; i += 4) {
+    let worst = 0;
+    for (let c = 0; c < 3; c++) worst = Math.max(worst, Math.abs(actual.data[i + c] - golden.data[i + c]));
+    const bad = worst > CHANNEL_TOLERANCE;
+    if (bad) count++;
+    diff.data[i] = bad ? 255 : actual.data[i] * 0.2;
+    diff.data[i + 1] = bad ? 0 : actual.data[i + 1] * 0.2;
+    diff.data[i + 2] = bad ? 0 : actual.data[i + 2] * 0.2;
+    diff.data[i + 3] = 255;
+  }
+  return { different: count / (actual.width * actual.height), diff };
+}
+
+function parseArgs(argv) {
+  const args = { update: false, only: null };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--update') args.update = true;
+    else if (argv[i] === '--only') args.only = argv[++i];
+  }
+  return args;
+}
+
+const args = parseArgs(process.argv.slice(2));
+setRequestedBackend('canvas2d'); // no WebGL in Node
+mkdirSync(GOLDEN_DIR, { recursive: true });
+
+let failures = 0;
+for (const fixture of FIXTURES) {
+  if (args.only && fixture.name !== args.only) continue;
+  const canvas = render(fixture);
+  const png = canvas.toBuffer('image/png');
+  const goldenPath = new URL(`${fixture.name}.png`, GOLDEN_DIR);
+
+  if (args.update || !existsSync(goldenPath)) {
+    writeFileSync(goldenPath, png);
+    console.log(`  wrote   ${fixture.name}`);
+    continue;
+  }
+
+  const actual = canvas.getContext('2d').getImageData(0, 0, WIDTH, HEIGHT);
+  const { different, diff } = compare(actual, await pixelsOf(readFileSync(goldenPath)));
+  const pct = (different * 100).toFixed(2);
+  if (different <= MAX_DIFFERENT) {
+    console.log(`  ok      ${fixture.name} (${pct}% differs)`);
+    continue;
+  }
+
+  failures++;
+  console.log(`  FAILED  ${fixture.name} (${pct}% differs)`);
+  mkdirSync(DIFF_DIR, { recursive: true });
+  writeFileSync(join(DIFF_DIR, `${fixture.name}.actual.png`), png);
+  if (diff) {
+    const diffCanvas = createCanvas(WIDTH, HEIGHT);
+    diffCanvas.getContext('2d').putImageData(diff, 0, 0);
+    writeFileSync(join(DIFF_DIR, `${fixture.name}.diff.png`), diffCanvas.toBuffer('image/png'));
+  }
+}
+
+if (failures > 0) {
+  console.log(`\n${failures} visual regression${failures === 1 ? '' : 's'} — see ${DIFF_DIR}/, or rerun with --update if intended`);
+  process.exit(1);
+}
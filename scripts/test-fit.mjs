@@ -0,0 +1,51 @@
+// Runs the harmonic fit against the fixture CSVs in scripts/fixtures/harmonics/
+// and checks the result against the constants they were made from.
+//
+//   npm run test:fit
+//
+// Each fixture is 30 days of 15-minute readings synthesised from known
+// constants (the client's predictor, with K2 left out as 30 days can't
+// separate it from S2) plus a slow surge and ±2 cm of noise. 0007.csv repeats
+// one day, as the chunked EA fetch does at its boundaries.
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { readCsv, cleanReadings, fitHarmonics } from './lib/fit.mjs';
+
+const FIXTURE_DIR = 'scripts/fixtures/harmonics';
+const AMPLITUDE_TOLERANCE = 0.01; // m
+const PHASE_TOLERANCE = 1; // degrees
+const DATUM_TOLERANCE = 0.02; // m
+
+const expected = JSON.parse(readFileSync(join(FIXTURE_DIR, 'expected.json'), 'utf8'));
+
+function phaseError(a, b) {
+  const d = Math.abs(a - b) % 360;
+  return Math.min(d, 360 - d);
+}
+
+let failures = 0;
+for (const [eaStation, want] of Object.entries(expected)) {
+  const fit = fitHarmonics(cleanReadings(readCsv(join(FIXTURE_DIR, `${eaStation}.csv`))));
+  const problems = [];
+
+  if (fit.samples !== want.samples) problems.push(`${fit.samples} samples, expected ${want.samples}`);
+  if (Math.abs(fit.datum - want.datum) > DATUM_TOLERANCE) problems.push(`datum ${fit.datum}, expected ${want.datum}`);
+  for (const [name, [amplitude, phase]] of Object.entries(want.constituents)) {
+    const got = fit.constituents[name];
+    if (!got) {
+      problems.push(`${name} not fitted`);
+    } else if (Math.abs(got[0] - amplitude) > AMPLITUDE_TOLERANCE || phaseError(got[1], phase) > PHASE_TOLERANCE) {
+      problems.push(`${name} ${got[0]} m ${got[1]}°, expected ${amplitude} m ${phase}°`);
+    }
+  }
+
+  if (problems.length === 0) {
+    console.log(`  ok      ${eaStation} (rms ${fit.rmsResidual} m)`);
+  } else {
+    failures++;
+    console.log(`  FAILED  ${eaStation}: ${problems.join('; ')}`);
+  }
+}
+
+if (failures > 0) process.exit(1);
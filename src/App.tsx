@@ -1,21 +1,33 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import type { Theme } from './types';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import type { BarrierOverride, LayerSettings, NavigationSettings, Theme } from './types';
 import type { Station } from './stations';
-import { STATIONS, DEFAULT_STATION } from './stations';
+import { STATIONS, DEFAULT_STATION, buildCatalogue } from './stations';
 import { useTideData } from './hooks/useTideData';
+import { useStationCatalogue } from './hooks/useStationCatalogue';
+import { loadCachedGauges } from './storage/stationCatalogue';
+import { loadBarrierOverride, saveBarrierOverride } from './storage/barrierSettings';
+import { loadNavigationSettings, saveNavigationSettings } from './storage/navigationSettings';
+import { loadLayerSettings, saveLayerSettings } from './storage/layerSettings';
+import { launchDatum, navigationWindows } from './utils/navigation';
 import { TideCanvas } from './components/TideCanvas';
 import { Overlay } from './components/Overlay';
+import { ComparisonView } from './components/ComparisonView';
+import { EstuaryMap } from './components/EstuaryMap';
+import { createScrubStore } from './scrub';
 import { LoadingScreen } from './components/LoadingScreen';
-import { isDaytime, getSunTimes } from './utils/sun';
+import { daylightAt, LONDON } from './utils/sun';
 import './App.css';
 
 const STORAGE_KEY = 'thames-tides-station';
+const SUN_UPDATE_MS = 60_000;
 
 function loadStation(): Station {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
-      const found = STATIONS.find((s) => s.id === stored);
+      // Curated stations first; anything else was picked from the cached catalogue
+      const found = STATIONS.find((s) => s.id === stored)
+        ?? buildCatalogue(loadCachedGauges().gauges).find((s) => s.id === stored);
       if (found) return found;
     }
   } catch {}
@@ -24,10 +36,31 @@ function loadStation(): Station {
 
 export default function App() {
   const [station, setStation] = useState<Station>(loadStation);
+  const stations = useStationCatalogue();
 
-  const { data, loading, error } = useTideData(station);
-  const [theme, setTheme] = useState<Theme>(() => (isDaytime() ? 'light' : 'dark'));
-  const manualOverride = useRef(false);
+  const [barrierOverride, setBarrierOverride] = useState<BarrierOverride>(loadBarrierOverride);
+  const { data, loading, error } = useTideData(station, undefined, barrierOverride, true);
+  // How far the sun is up at the station (0 night .. 1 day), unless the user has picked a theme
+  const [daylight, setDaylight] = useState(() => daylightAt());
+  const [manualTheme, setManualTheme] = useState<Theme | null>(null);
+  const theme: Theme = manualTheme ?? (daylight >= 0.5 ? 'light' : 'dark');
+  const themeBlend = manualTheme ? (manualTheme === 'light' ? 1 : 0) : daylight;
+  // Moment the view is pinned to (epoch ms), or null to follow live
+  const [pinnedTime, setPinnedTime] = useState<number | null>(null);
+  const [scrub] = useState(createScrubStore);
+  const [navigation, setNavigation] = useState<NavigationSettings>(loadNavigationSettings);
+  const [layerSettings, setLayerSettings] = useState<LayerSettings>(loadLayerSettings);
+
+  // Outing windows across the whole span of events the hook keeps
+  const windows = useMemo(() => {
+    if (!data || !navigation.enabled || data.predictions.length < 2) return [];
+    const first = data.predictions[0].time.getTime();
+    const last = data.predictions[data.predictions.length - 1].time.getTime();
+    const datum = launchDatum(station.cdToMaod, data.predictions);
+    return navigationWindows(data.predictions, data.harmonics, datum, navigation, first, last);
+  }, [data, navigation, station.cdToMaod]);
+  // Whole-estuary views replace the single-station view while they're open
+  const [view, setView] = useState<'station' | 'compare' | 'map'>('station');
 
   // Persist station choice
   useEffect(() => {
@@ -36,69 +69,93 @@ export default function App() {
     } catch {}
   }, [station.id]);
 
-  // Auto-switch at sunrise/sunset unless the user has manually toggled
+  // Follow the sun through twilight at the station's own position. A manual
+  // toggle holds until the sun next rises or sets.
+  const lat = data?.location?.lat ?? LONDON.lat;
+  const long = data?.location?.long ?? LONDON.long;
+  const dayRef = useRef(daylight >= 0.5);
   useEffect(() => {
-    const scheduleNext = () => {
-      const now = new Date();
-      const { sunrise, sunset } = getSunTimes(now);
-
-      // Find the next transition
-      let next: Date;
-      let nextTheme: Theme;
-
-      if (now < sunrise) {
-        next = sunrise;
-        nextTheme = 'light';
-      } else if (now < sunset) {
-        next = sunset;
-        nextTheme = 'dark';
-      } else {
-        // After sunset — next transition is tomorrow's sunrise
-        const tomorrow = new Date(now);
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        const { sunrise: tomorrowRise } = getSunTimes(tomorrow);
-        next = tomorrowRise;
-        nextTheme = 'light';
+    const update = () => {
+      const next = daylightAt(new Date(), { lat, long });
+      if (next >= 0.5 !== dayRef.current) {
+        dayRef.current = next >= 0.5;
+        setManualTheme(null);
       }
+      setDaylight(next);
+    };
+    update();
+    const id = setInterval(update, SUN_UPDATE_MS);
+    return () => clearInterval(id);
+  }, [lat, long]);
 
-      const ms = next.getTime() - now.getTime();
-      const id = setTimeout(() => {
-        if (!manualOverride.current) {
-          setTheme(nextTheme);
-        }
-        manualOverride.current = false; // reset override at each transition
-        scheduleNext();
-      }, ms);
+  const toggleTheme = useCallback(() => {
+    setManualTheme(theme === 'dark' ? 'light' : 'dark');
+  }, [theme]);
 
-      return id;
-    };
+  const selectStation = useCallback((s: Station) => {
+    setStation(s);
+  }, []);
 
-    const id = scheduleNext();
-    return () => clearTimeout(id);
+  const changeNavigation = useCallback((settings: NavigationSettings) => {
+    setNavigation(settings);
+    saveNavigationSettings(settings);
   }, []);
 
-  const toggleTheme = useCallback(() => {
-    manualOverride.current = true;
-    setTheme((t) => (t === 'dark' ? 'light' : 'dark'));
+  const changeLayers = useCallback((settings: LayerSettings) => {
+    setLayerSettings(settings);
+    saveLayerSettings(settings);
   }, []);
 
-  const selectStation = useCallback((s: Station) => {
-    setStation(s);
+  const changeBarrierOverride = useCallback((override: BarrierOverride) => {
+    setBarrierOverride(override);
+    saveBarrierOverride(override);
   }, []);
 
+  if (view === 'compare') {
+    return <ComparisonView theme={theme} themeBlend={themeBlend} onClose={() => setView('station')} />;
+  }
+
+  if (view === 'map') {
+    return (
+      <EstuaryMap
+        station={station}
+        theme={theme}
+        themeBlend={themeBlend}
+        onSelectStation={(s) => {
+          selectStation(s);
+          setView('station');
+        }}
+        onClose={() => setView('station')}
+      />
+    );
+  }
+
   if (loading || !data) {
     return <LoadingScreen error={error} />;
   }
 
   return (
     <>
-      <TideCanvas data={data} theme={theme} stationId={station.id} />
+      <TideCanvas data={data} theme={theme} themeBlend={themeBlend} stationId={station.id} pinnedTime={pinnedTime} scrub={scrub} navigationWindows={windows} layers={layerSettings.layers} />
       <Overlay
         data={data}
         station={station}
+        stations={stations}
         theme={theme}
         onToggleTheme={toggleTheme}
         onSelectStation={selectStation}
+        pinnedTime={pinnedTime}
+        scrub={scrub}
+        onPinTime={setPinnedTime}
+        onCompare={() => setView('compare')}
+        onShowMap={() => setView('map')}
+        barrierOverride={barrierOverride}
+        onBarrierOverride={changeBarrierOverride}
+        navigation={navigation}
+        navigationWindows={windows}
+        onNavigationChange={changeNavigation}
+        layerSettings={layerSettings}
+        onLayersChange={changeLayers}
       />
     </>
   );
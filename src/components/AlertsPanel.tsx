@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import type { AlertRule } from '../types';
+import type { Station } from '../stations';
+import { describeRule } from '../utils/alerts';
+import { loadAlertRules, saveAlertRules } from '../storage/alertSettings';
+import { notificationsSupported, requestAlertPermission } from '../notifications';
+
+interface AlertsPanelProps {
+  station: Station;
+  currentLevel: number;
+}
+
+type DraftKind = 'level_above' | 'level_below' | 'before_high' | 'before_low';
+
+function buildRule(kind: DraftKind, value: number, stationId: string): AlertRule {
+  const id = Date.now().toString(36);
+  switch (kind) {
+    case 'level_above':
+    case 'level_below':
+      return { id, stationId, kind, level: value };
+    case 'before_high':
+      return { id, stationId, kind: 'before_event', event: 'high', minutes: value };
+    case 'before_low':
+      return { id, stationId, kind: 'before_event', event: 'low', minutes: value };
+  }
+}
+
+export function AlertsPanel({ station, currentLevel }: AlertsPanelProps) {
+  const [rules, setRules] = useState<AlertRule[]>(() => loadAlertRules());
+  const [kind, setKind] = useState<DraftKind>('level_above');
+  const [value, setValue] = useState(() => (Math.round(currentLevel * 10) / 10 + 0.5).toFixed(1));
+  const [permission, setPermission] = useState(() =>
+    notificationsSupported() ? Notification.permission : 'denied'
+  );
+
+  const isLevel = kind === 'level_above' || kind === 'level_below';
+  const stationRules = rules.filter((r) => r.stationId === station.id);
+  // Rules are only checked for the open station, so those elsewhere sit idle until it's opened again
+  const otherRules = rules.length - stationRules.length;
+
+  const update = (next: AlertRule[]) => {
+    setRules(next);
+    saveAlertRules(next);
+  };
+
+  const addRule = async () => {
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed) || (!isLevel && parsed <= 0)) return;
+    update([...rules, buildRule(kind, isLevel ? parsed : Math.round(parsed), station.id)]);
+    const granted = await requestAlertPermission();
+    setPermission(granted ? 'granted' : notificationsSupported() ? Notification.permission : 'denied');
+  };
+
+  return (
+    <div className="alerts-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="alerts-heading">Alerts · {station.name}</div>
+
+      {stationRules.length === 0 && <div className="alerts-empty">No alerts for this station</div>}
+      {stationRules.map((rule) => (
+        <div key={rule.id} className="alerts-rule">
+          <span>{describeRule(rule)}</span>
+          <button
+            className="alerts-remove"
+            aria-label="Remove alert"
+            onClick={() => update(rules.filter((r) => r.id !== rule.id))}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <div className="alerts-form">
+        <select
+          value={kind}
+          onChange={(e) => {
+            const next = e.target.value as DraftKind;
+            const wasLevel = isLevel;
+            setKind(next);
+            // Switching between a level and a lead time makes the old value meaningless
+            if (wasLevel !== (next === 'level_above' || next === 'level_below')) {
+              setValue(wasLevel ? '30' : (Math.round(currentLevel * 10) / 10 + 0.5).toFixed(1));
+            }
+          }}
+        >
+          <option value="level_above">Level above</option>
+          <option value="level_below">Level below</option>
+          <option value="before_high">Before high water</option>
+          <option value="before_low">Before low water</option>
+        </select>
+        <input
+          type="number"
+          inputMode="decimal"
+          step={isLevel ? 0.1 : 5}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+        />
+        <span className="alerts-unit">{isLevel ? 'mAOD' : 'min'}</span>
+        <button className="alerts-add" onClick={addRule}>Add</button>
+      </div>
+
+      {stationRules.length > 0 && (
+        <div className="alerts-hint">Checked only while {station.name} is the open station</div>
+      )}
+      {otherRules > 0 && (
+        <div className="alerts-hint">
+          {otherRules} alert{otherRules === 1 ? '' : 's'} at other stations paused until you open them
+        </div>
+      )}
+      {permission === 'denied' && stationRules.length > 0 && (
+        <div className="alerts-note">Notifications are blocked — alerts won't be shown</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type { TideData, Theme } from '../types';
+import { ESTUARY_STATIONS } from '../stations';
+import { useCanvasSize } from '../hooks/useCanvasSize';
+import { StationFeed } from './StationFeed';
+import { drawStackedCurves, drawLongProfile } from '../engine/comparison';
+import type { ComparisonFeed } from '../utils/comparison';
+
+interface ComparisonViewProps {
+  theme: Theme;
+  themeBlend: number;
+  onClose: () => void;
+}
+
+type ComparisonMode = 'stacked' | 'profile';
+
+// Long-profile time slider, matching the stacked view's window
+const OFFSET_MIN_MINS = -6 * 60;
+const OFFSET_MAX_MINS = 18 * 60;
+const PLAY_STEP_MINS = 10;
+const PLAY_INTERVAL_MS = 120;
+
+function offsetLabel(mins: number): string {
+  if (mins === 0) return 'Now';
+  const abs = Math.abs(mins);
+  const h = Math.floor(abs / 60);
+  const m = abs % 60;
+  return `${mins < 0 ? '−' : '+'}${h}h${m ? ` ${m.toString().padStart(2, '0')}m` : ''}`;
+}
+
+export function ComparisonView({ theme, themeBlend, onClose }: ComparisonViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { width, height, dpr } = useCanvasSize();
+  const [byStation, setByStation] = useState<Record<string, TideData>>({});
+  const [mode, setMode] = useState<ComparisonMode>('stacked');
+  const [offsetMins, setOffsetMins] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [threshold, setThreshold] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+
+  const handleData = useCallback((id: string, data: TideData) => {
+    setByStation((prev) => ({ ...prev, [id]: data }));
+  }, []);
+
+  // Keep the now line moving
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(id);
+  }, []);
+
+  // Play the long profile through the window, looping
+  useEffect(() => {
+    if (!playing) return;
+    const id = setInterval(() => {
+      setOffsetMins((m) => (m + PLAY_STEP_MINS > OFFSET_MAX_MINS ? OFFSET_MIN_MINS : m + PLAY_STEP_MINS));
+    }, PLAY_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [playing]);
+
+  const feeds: ComparisonFeed[] = useMemo(
+    () =>
+      ESTUARY_STATIONS.flatMap((station) => {
+        const data = byStation[station.id];
+        return data ? [{ station, data }] : [];
+      }),
+    [byStation]
+  );
+  const parsedThreshold = threshold.trim() === '' ? null : Number(threshold);
+  const thresholdLevel = parsedThreshold !== null && Number.isFinite(parsedThreshold) ? parsedThreshold : null;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const frame = {
+      width,
+      height,
+      themeBlend,
+      now,
+      viewTime: now + offsetMins * 60_000,
+      threshold: thresholdLevel,
+    };
+    if (mode === 'stacked') drawStackedCurves(ctx, feeds, frame);
+    else drawLongProfile(ctx, feeds, frame);
+  }, [width, height, dpr, themeBlend, now, offsetMins, thresholdLevel, mode, feeds]);
+
+  const loaded = feeds.length;
+
+  return (
+    <>
+      {ESTUARY_STATIONS.map((s) => (
+        <StationFeed key={s.id} station={s} onData={handleData} />
+      ))}
+      <canvas
+        ref={canvasRef}
+        style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          width: '100%',
+          height: '100%',
+          display: 'block',
+        }}
+      />
+      <div className="overlay comparison" data-theme={theme}>
+        <div className="overlay-title">
+          Thames estuary
+          <div className="overlay-updated">
+            {loaded < ESTUARY_STATIONS.length
+              ? `Loading ${loaded} of ${ESTUARY_STATIONS.length} stations…`
+              : 'High water travels upstream from Southend'}
+          </div>
+        </div>
+
+        <button className="theme-toggle" aria-label="Close comparison" onClick={onClose}>
+          ✕
+        </button>
+
+        <div className="comparison-controls">
+          <div className="comparison-modes">
+            <button className={mode === 'stacked' ? 'active' : ''} onClick={() => setMode('stacked')}>
+              Curves
+            </button>
+            <button className={mode === 'profile' ? 'active' : ''} onClick={() => setMode('profile')}>
+              Long profile
+            </button>
+          </div>
+
+          <label className="comparison-threshold">
+            Need
+            <input
+              type="number"
+              step="0.1"
+              placeholder="—"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+            />
+            mAOD
+          </label>
+
+          {mode === 'profile' && (
+            <div className="comparison-time">
+              <button onClick={() => setPlaying((p) => !p)} aria-label={playing ? 'Pause' : 'Play'}>
+                {playing ? '❚❚' : '▶'}
+              </button>
+              <input
+                type="range"
+                min={OFFSET_MIN_MINS}
+                max={OFFSET_MAX_MINS}
+                step={PLAY_STEP_MINS}
+                value={offsetMins}
+                onChange={(e) => {
+                  setPlaying(false);
+                  setOffsetMins(Number(e.target.value));
+                }}
+              />
+              <span className="comparison-offset">
+                {offsetLabel(offsetMins)} · {new Date(now + offsetMins * 60_000).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}
+              </span>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,37 @@
+import type { FrameStats, LayerId } from '../types';
+import { getLayer } from '../engine/renderer';
+import { QUALITY_LEVELS } from '../engine/quality';
+
+interface DebugHudProps {
+  stats: FrameStats;
+}
+
+const BAR_SCALE_MS = 16; // a full-width bar
+
+export function DebugHud({ stats }: DebugHudProps) {
+  const budget = QUALITY_LEVELS[stats.level].frameInterval;
+  const layers = Object.entries(stats.layers) as [LayerId, number][];
+
+  return (
+    <div className="debug-hud" aria-hidden="true">
+      <div>
+        {stats.backend} · {stats.worker ? 'worker' : 'main thread'}
+      </div>
+      <div>
+        quality {stats.level}/{QUALITY_LEVELS.length - 1} · {stats.fps.toFixed(0)} fps
+      </div>
+      <div>
+        frame {stats.frameMs.toFixed(1)} ms of {budget.toFixed(0)}
+      </div>
+      {layers.map(([id, ms]) => (
+        <div key={id} className="debug-hud-layer">
+          <span className="debug-hud-name">{getLayer(id)?.label ?? id}</span>
+          <span className="debug-hud-track">
+            <span className="debug-hud-bar" style={{ width: `${Math.min(ms / BAR_SCALE_MS, 1) * 100}%` }} />
+          </span>
+          <span className="debug-hud-ms">{ms.toFixed(1)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
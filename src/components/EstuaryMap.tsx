@@ -0,0 +1,117 @@
+import { useState, useCallback } from 'react';
+import type { TideData, TideState, Theme } from '../types';
+import type { Station } from '../stations';
+import { STATIONS } from '../stations';
+import { useCanvasSize } from '../hooks/useCanvasSize';
+import { StationFeed } from './StationFeed';
+import { levelToCSS, levelToBackground } from '../engine/color';
+import { fitProjection, riverOutlinePath, riverCentrePath } from '../utils/estuaryMap';
+
+interface EstuaryMapProps {
+  station: Station;
+  theme: Theme;
+  themeBlend: number;
+  onSelectStation: (station: Station) => void;
+  onClose: () => void;
+}
+
+const MAP_TOP = 40; // room for the title and close button
+const MAP_PADDING = 56;
+const MARKER_RADIUS = 8;
+
+const MAPPED_STATIONS = STATIONS.filter((s) => s.lat !== undefined && s.long !== undefined);
+
+function stateArrow(state: TideState): string {
+  switch (state) {
+    case 'rising': return '▲';
+    case 'falling': return '▼';
+    case 'high_slack':
+    case 'low_slack': return '■';
+  }
+}
+
+function stateLabel(state: TideState): string {
+  switch (state) {
+    case 'rising': return 'rising';
+    case 'falling': return 'falling';
+    case 'high_slack': return 'high slack';
+    case 'low_slack': return 'low slack';
+  }
+}
+
+export function EstuaryMap({ station, theme, themeBlend, onSelectStation, onClose }: EstuaryMapProps) {
+  const { width, height } = useCanvasSize();
+  const [byStation, setByStation] = useState<Record<string, TideData>>({});
+
+  const handleData = useCallback((id: string, data: TideData) => {
+    setByStation((prev) => ({ ...prev, [id]: data }));
+  }, []);
+
+  const projection = fitProjection(width, height - MAP_TOP, MAP_PADDING);
+  const place = (s: Station) => {
+    const [x, y] = projection.project({ lat: s.lat!, long: s.long! });
+    return [x, y + MAP_TOP] as const;
+  };
+  const background = levelToBackground(byStation[station.id]?.currentLevel ?? 0, themeBlend);
+
+  return (
+    <div className="estuary-map" data-theme={theme} style={{ background }}>
+      {MAPPED_STATIONS.map((s) => (
+        <StationFeed key={s.id} station={s} onData={handleData} />
+      ))}
+
+      <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+        <g transform={`translate(0 ${MAP_TOP})`}>
+          <path className="estuary-river" d={riverOutlinePath(projection)} />
+          <path className="estuary-centre" d={riverCentrePath(projection)} />
+        </g>
+
+        {MAPPED_STATIONS.map((s, i) => {
+          const [x, y] = place(s);
+          const data = byStation[s.id];
+          // Alternate labels above and below so close neighbours don't collide
+          const below = i % 2 === 1;
+          const labelY = below ? y + MARKER_RADIUS + 16 : y - MARKER_RADIUS - 22;
+          return (
+            <g
+              key={s.id}
+              className={`estuary-station${s.id === station.id ? ' current' : ''}`}
+              role="button"
+              aria-label={`Show ${s.name}`}
+              onClick={() => onSelectStation(s)}
+            >
+              {/* Generous hit area for fingers */}
+              <circle cx={x} cy={y} r={MARKER_RADIUS * 3} fill="transparent" />
+              {s.id === station.id && <circle className="estuary-ring" cx={x} cy={y} r={MARKER_RADIUS + 5} />}
+              <circle
+                className="estuary-marker"
+                cx={x}
+                cy={y}
+                r={MARKER_RADIUS}
+                style={data ? { fill: levelToCSS(data.currentLevel) } : undefined}
+              />
+              <text className="estuary-name" x={x} y={labelY} textAnchor="middle">
+                {s.name}
+              </text>
+              <text className="estuary-level" x={x} y={labelY + 13} textAnchor="middle">
+                {data
+                  ? `${stateArrow(data.tideState)} ${data.currentLevel.toFixed(2)} mAOD · ${stateLabel(data.tideState)}`
+                  : 'Loading…'}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="overlay" data-theme={theme}>
+        <div className="overlay-title">
+          Tidal Thames
+          <div className="overlay-updated">Teddington to Southend · tap a station</div>
+        </div>
+        <button className="theme-toggle" aria-label="Close map" onClick={onClose}>
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import type { LayerConfig, LayerSettings, VisualPreset } from '../types';
+import { VISUAL_PRESETS, getLayer } from '../engine/renderer';
+
+interface LayersPanelProps {
+  settings: LayerSettings;
+  onChange: (settings: LayerSettings) => void;
+}
+
+export function LayersPanel({ settings, onChange }: LayersPanelProps) {
+  const { layers } = settings;
+
+  // Any change by hand leaves the preset behind
+  const setLayers = (next: LayerConfig[]) => onChange({ preset: null, layers: next });
+
+  const update = (i: number, patch: Partial<LayerConfig>) => {
+    setLayers(layers.map((l, j) => (j === i ? { ...l, ...patch } : l)));
+  };
+
+  const move = (i: number, by: -1 | 1) => {
+    const j = i + by;
+    if (j < 0 || j >= layers.length) return;
+    const next = [...layers];
+    [next[i], next[j]] = [next[j], next[i]];
+    setLayers(next);
+  };
+
+  return (
+    <div className="layers-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="layers-heading">Visuals</div>
+
+      <div className="layers-presets">
+        {(Object.keys(VISUAL_PRESETS) as VisualPreset[]).map((id) => (
+          <button
+            key={id}
+            className={settings.preset === id ? 'active' : ''}
+            onClick={() => onChange({ preset: id, layers: VISUAL_PRESETS[id].layers })}
+          >
+            {VISUAL_PRESETS[id].label}
+          </button>
+        ))}
+      </div>
+
+      {/* Top of the list is drawn last, so it reads like a stack */}
+      {layers.map((layer, i) => ({ layer, i })).reverse().map(({ layer, i }) => (
+        <div key={layer.id} className={`layers-row${layer.enabled ? '' : ' off'}`}>
+          <label>
+            <input
+              type="checkbox"
+              checked={layer.enabled}
+              onChange={(e) => update(i, { enabled: e.target.checked })}
+            />
+            {getLayer(layer.id)?.label ?? layer.id}
+          </label>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={layer.opacity}
+            aria-label="Opacity"
+            disabled={!layer.enabled}
+            onChange={(e) => update(i, { opacity: Number(e.target.value) })}
+          />
+          <button aria-label="Move up" disabled={i === layers.length - 1} onClick={() => move(i, 1)}>↑</button>
+          <button aria-label="Move down" disabled={i === 0} onClick={() => move(i, -1)}>↓</button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import type { NavigationSettings, NavigationWindow, StreamDirection, TripDirection } from '../types';
+import type { Station } from '../stations';
+
+interface NavigationPanelProps {
+  station: Station;
+  settings: NavigationSettings;
+  windows: NavigationWindow[];
+  onChange: (settings: NavigationSettings) => void;
+}
+
+const LIST_AHEAD_MS = 48 * 3600 * 1000;
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+}
+
+function streamLabel(stream: StreamDirection): string {
+  switch (stream) {
+    case 'flood': return 'flood';
+    case 'ebb': return 'ebb';
+    case 'slack': return 'slack';
+  }
+}
+
+export function NavigationPanel({ station, settings, windows, onChange }: NavigationPanelProps) {
+  // Fixed when the panel opens, like the tide table
+  const [now] = useState(() => Date.now());
+  const upcoming = windows.filter((w) => w.end.getTime() > now && w.start.getTime() < now + LIST_AHEAD_MS);
+
+  const setNumber = (key: 'draft' | 'launchHeight' | 'slackMinutes', raw: string) => {
+    const value = parseFloat(raw);
+    if (Number.isFinite(value)) onChange({ ...settings, [key]: value });
+  };
+
+  return (
+    <div className="nav-panel" onClick={(e) => e.stopPropagation()}>
+      <div className="nav-heading">Outings · launching at {station.name}</div>
+
+      <label className="nav-row">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+        />
+        Show windows on the tide curve
+      </label>
+
+      <label className="nav-row">
+        <span>Draft</span>
+        <input
+          type="number"
+          inputMode="decimal"
+          step={0.1}
+          min={0}
+          defaultValue={settings.draft}
+          onChange={(e) => setNumber('draft', e.target.value)}
+        />
+        <span className="nav-unit">m</span>
+      </label>
+
+      <label className="nav-row">
+        <span>Launch dries at</span>
+        <input
+          type="number"
+          inputMode="decimal"
+          step={0.1}
+          defaultValue={settings.launchHeight}
+          onChange={(e) => setNumber('launchHeight', e.target.value)}
+        />
+        <span className="nav-unit">m {station.cdToMaod !== null ? 'CD' : 'above lowest low'}</span>
+      </label>
+
+      <label className="nav-row">
+        <span>Trip</span>
+        <select
+          value={settings.trip}
+          onChange={(e) => onChange({ ...settings, trip: e.target.value as TripDirection })}
+        >
+          <option value="either">Either way</option>
+          <option value="upstream">Upstream (with the flood)</option>
+          <option value="downstream">Downstream (with the ebb)</option>
+        </select>
+      </label>
+
+      <label className="nav-row">
+        <span>Slack</span>
+        <input
+          type="number"
+          inputMode="numeric"
+          step={5}
+          min={0}
+          defaultValue={settings.slackMinutes}
+          onChange={(e) => setNumber('slackMinutes', e.target.value)}
+        />
+        <span className="nav-unit">min either side of HW/LW</span>
+      </label>
+
+      <div className="nav-divider" />
+
+      {!settings.enabled && <div className="nav-empty">Turn windows on to see when you can go out</div>}
+      {settings.enabled && upcoming.length === 0 && (
+        <div className="nav-empty">No windows in the next 48 hours</div>
+      )}
+      {settings.enabled && upcoming.map((w) => (
+        <div key={w.start.getTime()} className={`nav-window${w.start.getTime() <= now ? ' now' : ''}`}>
+          <span className="nav-window-time">
+            {w.start.toLocaleDateString('en-GB', { weekday: 'short' })} {formatTime(w.start)}–{formatTime(w.end)}
+          </span>
+          <span className="nav-window-detail">
+            {w.streams.map(streamLabel).join(' → ')} · ≥{w.minDepth.toFixed(1)} m
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,15 +1,36 @@
 import { useState, useEffect, useRef } from 'react';
-import type { TideData, TideState, TidalEvent, Theme } from '../types';
+import type { TideData, TideState, TidalEvent, Theme, SurgeAnalysis, DataQuality, SpringNeapState, BarrierStatus, BarrierOverride, NavigationSettings, NavigationWindow, LayerSettings } from '../types';
 import type { Station } from '../stations';
-import { STATIONS } from '../stations';
+import { StationMenu } from './StationMenu';
 import { needsDarkText } from '../engine/color';
+import { AlertsPanel } from './AlertsPanel';
+import { TimePicker } from './TimePicker';
+import { TideTable } from './TideTable';
+import { NavigationPanel } from './NavigationPanel';
+import { LayersPanel } from './LayersPanel';
+import { momentReadout } from '../utils/moment';
+import { useScrubOffset } from '../hooks/useScrubOffset';
+import type { ScrubStore } from '../scrub';
 
 interface OverlayProps {
   data: TideData;
   station: Station;
+  stations: Station[]; // full catalogue for the station menu
   theme: Theme;
   onToggleTheme: () => void;
   onSelectStation: (station: Station) => void;
+  pinnedTime: number | null; // epoch ms the view is pinned to, null when live
+  scrub: ScrubStore;
+  onPinTime: (time: number | null) => void;
+  onCompare: () => void;
+  onShowMap: () => void;
+  barrierOverride: BarrierOverride;
+  onBarrierOverride: (override: BarrierOverride) => void;
+  navigation: NavigationSettings;
+  navigationWindows: NavigationWindow[];
+  onNavigationChange: (settings: NavigationSettings) => void;
+  layerSettings: LayerSettings;
+  onLayersChange: (settings: LayerSettings) => void;
 }
 
 function tideStateLabel(state: TideState): string {
@@ -25,8 +46,7 @@ function formatTime(date: Date): string {
   return date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
 }
 
-function depthAboveLow(currentLevel: number, predictions: TidalEvent[], tideState: TideState): number {
-  const now = Date.now();
+function depthAboveLow(currentLevel: number, predictions: TidalEvent[], tideState: TideState, now: number): number {
   const lows = predictions.filter((e) => e.type === 'low');
   if (lows.length === 0) return currentLevel;
 
@@ -42,8 +62,7 @@ function depthAboveLow(currentLevel: number, predictions: TidalEvent[], tideStat
   return Math.max(0, currentLevel - refLow.level);
 }
 
-function timeUntilLabel(predictions: TidalEvent[], tideState: TideState): string | null {
-  const now = Date.now();
+function timeUntilLabel(predictions: TidalEvent[], tideState: TideState, now: number): string | null {
   const targetType = (tideState === 'rising' || tideState === 'low_slack') ? 'high' : 'low';
   const next = predictions.find((e) => e.type === targetType && e.time.getTime() > now);
   if (!next) return null;
@@ -58,11 +77,111 @@ function timeUntilLabel(predictions: TidalEvent[], tideState: TideState): string
   return `${timePart} until ${label}`;
 }
 
-export function Overlay({ data, station, theme, onToggleTheme, onSelectStation }: OverlayProps) {
-  const { currentLevel, tideState, lastUpdated, predictions } = data;
+// "Thu 14:00", with the date once it's far enough off that the weekday is ambiguous
+function viewingLabel(time: Date, now: number): string {
+  const far = Math.abs(time.getTime() - now) > 6 * 24 * 3600 * 1000;
+  const day = time.toLocaleDateString('en-GB', far
+    ? { weekday: 'short', day: 'numeric', month: 'short' }
+    : { weekday: 'short' });
+  return `${day} ${formatTime(time)}`;
+}
+
+function readingAgeLabel(readingTime: Date, now: number): string {
+  const mins = Math.max(0, Math.round((now - readingTime.getTime()) / 60000));
+  if (mins < 1) return 'Reading just now';
+  if (mins < 60) return `Reading ${mins} min old`;
+  const h = Math.floor(mins / 60);
+  return `Reading ${h}h ${mins % 60}m old`;
+}
+
+function qualityWarning(quality: DataQuality): string | null {
+  if (quality.status === 'stale') return 'Gauge has gone quiet — level may be out of date';
+  if (quality.issues.includes('flatline')) return 'Gauge looks stuck — treat this level with care';
+  if (quality.issues.includes('rate')) return 'Gauge readings look unreliable';
+  return null;
+}
+
+function predictionsIssueLabel(quality: DataQuality): string | null {
+  switch (quality.predictionsIssue) {
+    case 'stale': return 'Tide tables out of date — predicting from the harmonic model';
+    case 'mismatch': return "Tide tables don't match this station — predicting from the harmonic model";
+    case null: return null;
+  }
+}
+
+const HALF_SYNODIC_DAYS = 29.530589 / 2;
+
+// "Springs in 3 days" — whichever of springs or neaps comes first
+function springNeapLabel({ daysToSprings, daysToNeaps }: SpringNeapState): string {
+  const near = (days: number) => days < 0.5 || days > HALF_SYNODIC_DAYS - 0.5;
+  if (near(daysToSprings)) return 'Springs today';
+  if (near(daysToNeaps)) return 'Neaps today';
+  const springsFirst = daysToSprings < daysToNeaps;
+  const days = Math.round(springsFirst ? daysToSprings : daysToNeaps);
+  return `${springsFirst ? 'Springs' : 'Neaps'} in ${days} day${days === 1 ? '' : 's'}`;
+}
+
+function barrierLabel(barrier: BarrierStatus): string {
+  const state = barrier.closed ? 'Barrier closed' : 'Barrier open';
+  switch (barrier.source) {
+    case 'manual': return `${state} · set by you`;
+    case 'schedule': return `${state}${barrier.until ? ` until ${formatTime(barrier.until)}` : ''}${barrier.reason ? ` · ${barrier.reason}` : ''}`;
+    case 'detected': return `${state} · going by the levels`;
+    case null: return `${state} · auto`;
+  }
+}
+
+// Tapping the barrier line steps auto → closed → open → auto
+function nextOverride(override: BarrierOverride): BarrierOverride {
+  switch (override) {
+    case null: return 'closed';
+    case 'closed': return 'open';
+    case 'open': return null;
+  }
+}
+
+const SURGE_BADGE_THRESHOLD = 0.1; // m — below this the residual is within gauge noise
+
+function surgeLabel(surge: SurgeAnalysis | null): string | null {
+  if (!surge || Math.abs(surge.residual) < SURGE_BADGE_THRESHOLD) return null;
+  const sign = surge.residual > 0 ? '+' : '−';
+  const side = surge.residual > 0 ? 'above' : 'below';
+  return `Running ${sign}${Math.abs(surge.residual).toFixed(2)} m ${side} prediction`;
+}
+
+function adjustedHighLabel(surge: SurgeAnalysis | null): string | null {
+  if (!surge?.nextHigh || Math.abs(surge.residual) < SURGE_BADGE_THRESHOLD) return null;
+  const { time, adjustedLevel, predictedLevel } = surge.nextHigh;
+  return `Next high ${formatTime(time)} · ${adjustedLevel.toFixed(2)} mAOD (predicted ${predictedLevel.toFixed(2)})`;
+}
+
+export function Overlay({ data, station, stations, theme, onToggleTheme, onSelectStation, pinnedTime, scrub, onPinTime, onCompare, onShowMap, barrierOverride, onBarrierOverride, navigation, navigationWindows, onNavigationChange, layerSettings, onLayersChange }: OverlayProps) {
+  const { currentLevel, tideState, lastUpdated, predictions, surge, cachedAt, quality } = data;
   const dark = needsDarkText(currentLevel, theme === 'light' ? 1 : 0);
   const [menuOpen, setMenuOpen] = useState(false);
+  // Side panels share the space under the buttons, so only one is open at a time
+  const [panel, setPanel] = useState<'alerts' | 'picker' | 'table' | 'navigation' | 'layers' | null>(null);
+  const togglePanel = (p: typeof panel) => setPanel((open) => (open === p ? null : p));
   const menuRef = useRef<HTMLDivElement>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep the reading age ticking between polls
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(id);
+  }, []);
+
+  // Numbers for the moment under the centre line (pinned time plus any scrub), otherwise live
+  const scrubOffset = useScrubOffset(scrub);
+  const scrubbing = scrubOffset !== 0;
+  const viewTime = pinnedTime !== null || scrubbing ? (pinnedTime ?? now) + scrubOffset : null;
+  const readout = viewTime !== null ? momentReadout(data, viewTime) : null;
+  const shownLevel = readout?.level ?? currentLevel;
+  const shownState = readout?.tideState ?? tideState;
+  const shownEvents = readout?.events ?? predictions;
+  const shownAt = readout ? readout.time.getTime() : now;
+  // Barrier status is about the river now, like the surge badge
+  const held = viewTime === null && data.barrier?.closed === true;
 
   // Close menu when clicking outside
   useEffect(() => {
@@ -85,25 +204,49 @@ export function Overlay({ data, station, theme, onToggleTheme, onSelectStation }
       {/* Title — top left, tappable to open station picker */}
       <div className="overlay-title" onClick={() => setMenuOpen((o) => !o)}>
         Thames at {station.name}
-        <div className="overlay-updated">Last updated {formatTime(lastUpdated)}</div>
+        {cachedAt ? (
+          <div className="overlay-updated cached">Showing cached data from {formatTime(cachedAt)}</div>
+        ) : (
+          <div className={`overlay-updated${quality.status !== 'ok' ? ' warning' : ''}`}>
+            {readingAgeLabel(lastUpdated, now)} · {formatTime(lastUpdated)}
+          </div>
+        )}
+        {(() => {
+          const warning = qualityWarning(quality);
+          return warning ? <div className="overlay-warning">{warning}</div> : null;
+        })()}
+        {(() => {
+          const note = predictionsIssueLabel(quality);
+          return note ? <div className="overlay-model">{note}</div> : null;
+        })()}
+        {data.harmonicsPlaceholder && (
+          <div className="overlay-model">Beyond the tide tables: placeholder model, not fitted to this gauge</div>
+        )}
+        {data.barrier && (
+          <button
+            className={`overlay-barrier${data.barrier.closed ? ' closed' : ''}`}
+            title="Tap to set the barrier yourself"
+            onClick={(e) => {
+              e.stopPropagation();
+              onBarrierOverride(nextOverride(barrierOverride));
+            }}
+          >
+            {barrierLabel(data.barrier)}
+          </button>
+        )}
       </div>
 
       {/* Station picker menu */}
       {menuOpen && (
-        <div className="station-menu" ref={menuRef}>
-          {STATIONS.map((s) => (
-            <button
-              key={s.id}
-              className={`station-menu-item${s.id === station.id ? ' active' : ''}`}
-              onClick={() => {
-                onSelectStation(s);
-                setMenuOpen(false);
-              }}
-            >
-              {s.name}
-            </button>
-          ))}
-        </div>
+        <StationMenu
+          ref={menuRef}
+          stations={stations}
+          current={station}
+          onSelect={(s) => {
+            onSelectStation(s);
+            setMenuOpen(false);
+          }}
+        />
       )}
 
       {/* Theme toggle — top right */}
@@ -111,19 +254,124 @@ export function Overlay({ data, station, theme, onToggleTheme, onSelectStation }
         {theme === 'dark' ? '☀' : '☾'}
       </button>
 
+      {/* Alerts — next to the theme toggle */}
+      <button
+        className={`alerts-toggle${panel === 'alerts' ? ' active' : ''}`}
+        aria-label="Tide alerts"
+        onClick={() => togglePanel('alerts')}
+      >
+        🔔︎
+      </button>
+      {panel === 'alerts' && <AlertsPanel key={station.id} station={station} currentLevel={currentLevel} />}
+
+      {/* Date/time picker — pins the view to a chosen moment */}
+      <button
+        className={`time-toggle${panel === 'picker' || pinnedTime !== null ? ' active' : ''}`}
+        aria-label="View another time"
+        onClick={() => togglePanel('picker')}
+      >
+        ◷
+      </button>
+      {panel === 'picker' && <TimePicker data={data} pinnedTime={pinnedTime} onPinTime={onPinTime} />}
+
+      {/* Tide table — the week's highs and lows */}
+      <button
+        className={`table-toggle${panel === 'table' ? ' active' : ''}`}
+        aria-label="Tide table"
+        onClick={() => togglePanel('table')}
+      >
+        ≡
+      </button>
+      {/* Outing windows — when there's water and the stream is going your way */}
+      <button
+        className={`nav-toggle${panel === 'navigation' ? ' active' : ''}`}
+        aria-label="Outing windows"
+        onClick={() => togglePanel('navigation')}
+      >
+        ⇄
+      </button>
+      {panel === 'navigation' && (
+        <NavigationPanel
+          key={station.id}
+          station={station}
+          settings={navigation}
+          windows={navigationWindows}
+          onChange={onNavigationChange}
+        />
+      )}
+
+      {/* Visual presets and layers */}
+      <button
+        className={`layers-toggle${panel === 'layers' ? ' active' : ''}`}
+        aria-label="Visuals"
+        onClick={() => togglePanel('layers')}
+      >
+        ◐
+      </button>
+      {panel === 'layers' && <LayersPanel settings={layerSettings} onChange={onLayersChange} />}
+
+      {/* Estuary comparison — every station from Southend to Richmond */}
+      <button className="compare-toggle" aria-label="Compare estuary stations" onClick={onCompare}>
+        ⇶
+      </button>
+
+      {/* Estuary map — live levels at every station */}
+      <button className="map-toggle" aria-label="Estuary map" onClick={onShowMap}>
+        ⌖
+      </button>
+
+      {panel === 'table' && <TideTable data={data} station={station} stations={stations} onSelectStation={onSelectStation} />}
+
+      {pinnedTime !== null && (
+        <div className="overlay-pinned">
+          Viewing {viewingLabel(new Date(pinnedTime), now)}
+          {readout && !scrubbing && <span className="overlay-pinned-source"> · {readout.source}</span>}
+          <button
+            className="overlay-live"
+            onClick={() => {
+              onPinTime(null);
+              setPanel((open) => (open === 'picker' ? null : open));
+            }}
+          >
+            Back to live
+          </button>
+        </div>
+      )}
+
       {/* Central level display */}
       <div className="overlay-center">
+        {/* Scrubbed moment — fades out as the snapback returns to live */}
+        <div className={`overlay-scrub${scrubbing ? ' visible' : ''}`}>
+          {scrubbing && readout ? `${viewingLabel(readout.time, now)} · ${readout.source}` : 'Now'}
+        </div>
         <div className="overlay-level">
-          {depthAboveLow(currentLevel, predictions, tideState).toFixed(2)}
+          {depthAboveLow(shownLevel, shownEvents, shownState, shownAt).toFixed(2)}
           <span className="overlay-unit">m</span>
         </div>
         <div className="overlay-state">
-          {tideStateLabel(tideState)}
+          {held ? 'Barrier closed' : tideStateLabel(shownState)}
         </div>
         {(() => {
-          const countdown = timeUntilLabel(predictions, tideState);
+          // The predicted turn doesn't come while the barrier is holding the water
+          const countdown = held ? null : timeUntilLabel(shownEvents, shownState, shownAt);
           return countdown ? <div className="overlay-countdown">{countdown}</div> : null;
         })()}
+        <div className="overlay-cycle">
+          {data.springNeap.moonPhase} · {springNeapLabel(data.springNeap)}
+        </div>
+        {(() => {
+          // Surge is about the river right now, not the moment being viewed
+          if (viewTime !== null || !surge) return null;
+          const badge = surgeLabel(surge);
+          if (!badge) return null;
+          const adjusted = adjustedHighLabel(surge);
+          return (
+            <>
+              <div className={`overlay-surge${surge.residual > 0 ? ' above' : ' below'}`}>{badge}</div>
+              {adjusted && <div className="overlay-adjusted">{adjusted}</div>}
+            </>
+          );
+        })()}
       </div>
 
     </div>
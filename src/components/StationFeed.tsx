@@ -0,0 +1,19 @@
+import { useEffect } from 'react';
+import type { TideData } from '../types';
+import type { Station } from '../stations';
+import { useTideData } from '../hooks/useTideData';
+
+interface StationFeedProps {
+  station: Station;
+  onData: (id: string, data: TideData) => void;
+}
+
+// Renders nothing: one station's data, fetched and polled on its own like the
+// main view, for views that show several stations at once
+export function StationFeed({ station, onData }: StationFeedProps) {
+  const { data } = useTideData(station);
+  useEffect(() => {
+    if (data) onData(station.id, data);
+  }, [data, station.id, onData]);
+  return null;
+}
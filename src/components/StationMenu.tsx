@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import type { Ref } from 'react';
+import type { Station } from '../stations';
+import { searchStations, nearestStations } from '../stations';
+
+interface StationMenuProps {
+  stations: Station[];
+  current: Station;
+  onSelect: (station: Station) => void;
+  ref?: Ref<HTMLDivElement>;
+}
+
+const MAX_RESULTS = 40;
+
+type NearbyState =
+  | { status: 'idle' }
+  | { status: 'locating' }
+  | { status: 'found'; results: { station: Station; km: number }[] }
+  | { status: 'error'; message: string };
+
+export function StationMenu({ stations, current, onSelect, ref }: StationMenuProps) {
+  const [query, setQuery] = useState('');
+  const [nearby, setNearby] = useState<NearbyState>({ status: 'idle' });
+
+  const findNearest = () => {
+    if (!('geolocation' in navigator)) {
+      setNearby({ status: 'error', message: 'Location isn’t available in this browser' });
+      return;
+    }
+    setNearby({ status: 'locating' });
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        const results = nearestStations(stations, { lat: pos.coords.latitude, long: pos.coords.longitude });
+        setNearby(results.length > 0
+          ? { status: 'found', results }
+          : { status: 'error', message: 'No station positions known yet' });
+      },
+      () => setNearby({ status: 'error', message: 'Couldn’t get your location' }),
+      { maximumAge: 10 * 60 * 1000, timeout: 15_000 }
+    );
+  };
+
+  const item = (s: Station, detail?: string) => (
+    <button
+      key={s.id}
+      className={`station-menu-item${s.id === current.id ? ' active' : ''}`}
+      onClick={() => onSelect(s)}
+    >
+      {s.name}
+      {detail && <span className="station-menu-detail">{detail}</span>}
+    </button>
+  );
+
+  const matches = searchStations(stations, query);
+
+  return (
+    <div className="station-menu" ref={ref}>
+      <input
+        className="station-menu-search"
+        type="search"
+        placeholder="Search stations"
+        value={query}
+        autoFocus
+        onChange={(e) => setQuery(e.target.value)}
+      />
+      <button
+        className="station-menu-item station-menu-nearest"
+        onClick={findNearest}
+        disabled={nearby.status === 'locating'}
+      >
+        {nearby.status === 'locating' ? 'Locating…' : '◎ Nearest to me'}
+      </button>
+      {nearby.status === 'error' && <div className="station-menu-note">{nearby.message}</div>}
+
+      <div className="station-menu-list">
+        {nearby.status === 'found' && !query && (
+          <>
+            {nearby.results.map(({ station, km }) => item(station, `${km < 10 ? km.toFixed(1) : Math.round(km)} km`))}
+            <div className="station-menu-divider" />
+          </>
+        )}
+        {matches.slice(0, MAX_RESULTS).map((s) => item(s))}
+        {matches.length === 0 && <div className="station-menu-note">No stations match</div>}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
-import { useRef, useEffect, useCallback } from 'react';
-import type { TideData, VisualizationState, PointerState, Theme } from '../types';
+import { useRef, useEffect, useCallback, useState } from 'react';
+import type { TideData, SceneState, Theme, NavigationWindow, LayerConfig, FrameStats } from '../types';
 import { useCanvasSize } from '../hooks/useCanvasSize';
-import { renderFrame, renderInitialBackground } from '../engine/renderer';
-import { invalidateTideCurveCache, CURVE_HEIGHT_FRACTION } from '../engine/tideCurve';
+import { useRenderHints } from '../hooks/useRenderHints';
+import { DebugHud } from './DebugHud';
+import { CURVE_HEIGHT_FRACTION } from '../engine/tideCurve';
+import { createRenderLoop } from '../engine/renderHost';
+import type { RenderLoop } from '../engine/renderLoop';
+import type { ScrubStore } from '../scrub';
 
 const TRANSITION_MS = 800;
 const SNAPBACK_MS = 1200;
@@ -13,42 +17,159 @@ const PAST_HOURS = 12;
 const FUTURE_HOURS = 12;
 const TOTAL_WINDOW_MS = (PAST_HOURS + FUTURE_HOURS) * 3600 * 1000;
 
+// `?hud` shows frame timings over the canvas
+const SHOW_HUD = new URLSearchParams(window.location.search).has('hud');
+
 function easeInOut(t: number): number {
   return t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
 }
 
+type DataScene = Pick<
+  SceneState,
+  'currentLevel' | 'tideState' | 'rateOfChange' | 'readings' | 'predictions' | 'harmonics' |
+  'dataConfidence' | 'rangeFactor' | 'barrierClosed'
+>;
+
+function dataScene(data: TideData): DataScene {
+  return {
+    currentLevel: data.currentLevel,
+    tideState: data.tideState,
+    rateOfChange: data.rateOfChange,
+    readings: data.readings,
+    predictions: data.predictions,
+    harmonics: data.harmonics,
+    dataConfidence: data.quality.confidence,
+    rangeFactor: data.springNeap.rangeFactor,
+    barrierClosed: data.barrier?.closed ?? false,
+  };
+}
+
 interface TideCanvasProps {
   data: TideData;
   theme: Theme;
+  themeBlend: number; // target blend, 0 = dark, 1 = light; eased towards on change
   stationId: string;
+  pinnedTime: number | null;
+  scrub: ScrubStore;
+  navigationWindows: NavigationWindow[];
+  layers: LayerConfig[];
 }
 
-export function TideCanvas({ data, theme, stationId }: TideCanvasProps) {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+export function TideCanvas({ data, theme, themeBlend, stationId, pinnedTime, scrub, navigationWindows, layers }: TideCanvasProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
   const { width, height, dpr } = useCanvasSize();
-  const animTimeRef = useRef(0);
-  const lastFrameRef = useRef(0);
-  const pointerRef = useRef<PointerState>({ x: 0, y: 0, active: false });
+  const hints = useRenderHints();
+  const [stats, setStats] = useState<FrameStats | null>(null);
+
+  // The loop runs in a worker where it can, so it gets the scene as patches
+  // rather than reading props; sceneRef is what a new loop starts from
+  const loopRef = useRef<RenderLoop | null>(null);
+  const sceneRef = useRef<SceneState>({
+    width,
+    height,
+    dpr,
+    ...dataScene(data),
+    pointer: { x: 0, y: 0, active: false },
+    theme,
+    themeBlend,
+    stationId,
+    scrubOffset: 0,
+    pinnedTime,
+    navigationWindows,
+  });
+
+  const layersRef = useRef(layers);
+  const hintsRef = useRef(hints);
+
+  const updateScene = useCallback((patch: Partial<SceneState>) => {
+    sceneRef.current = { ...sceneRef.current, ...patch };
+    loopRef.current?.update(patch);
+  }, []);
+
+  // One canvas per loop: StrictMode mounts twice, and a canvas can only be
+  // transferred to a worker once
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.style.display = 'block';
+    canvas.style.width = '100%';
+    canvas.style.height = '100%';
+    container.appendChild(canvas);
+
+    const loop = createRenderLoop(canvas, sceneRef.current, layersRef.current, {
+      hints: hintsRef.current,
+      onStats: SHOW_HUD ? setStats : undefined,
+    });
+    loopRef.current = loop;
+    return () => {
+      loop.stop();
+      loopRef.current = null;
+      canvas.remove();
+    };
+  }, []);
 
-  // Time-scrub state
-  const timeOffsetRef = useRef(0); // current offset in ms (negative = past, positive = future)
+  useEffect(() => {
+    updateScene({ width, height, dpr });
+  }, [width, height, dpr, updateScene]);
+
+  useEffect(() => {
+    updateScene(dataScene(data));
+  }, [data, updateScene]);
+
+  useEffect(() => {
+    updateScene({ theme });
+  }, [theme, updateScene]);
+
+  useEffect(() => scrub.subscribe(() => updateScene({ scrubOffset: scrub.get() })), [scrub, updateScene]);
+
+  // Time-scrub state. The offset itself lives in `scrub` so the overlay can
+  // follow it; it's relative to the pinned moment when there is one (and snaps
+  // back to it), otherwise to now.
   const isDraggingRef = useRef(false);
   const dragStartXRef = useRef(0);
   const dragStartOffsetRef = useRef(0);
   const snapbackRafRef = useRef(0);
   const snapbackTimerRef = useRef(0);
 
+  // Picked up on the next frame; the loop doesn't restart for new windows
+  useEffect(() => {
+    updateScene({ navigationWindows });
+  }, [navigationWindows, updateScene]);
+
+  // Layer stack, likewise
+  useEffect(() => {
+    layersRef.current = layers;
+    loopRef.current?.setLayers(layers);
+  }, [layers]);
+
+  // Quality ceiling, and a full stop while the page is hidden
+  useEffect(() => {
+    hintsRef.current = hints;
+    loopRef.current?.setHints(hints);
+  }, [hints]);
+
   // Invalidate canvas caches when station changes
   useEffect(() => {
-    invalidateTideCurveCache();
-  }, [stationId]);
+    loopRef.current?.invalidateCurve();
+    updateScene({ stationId });
+  }, [stationId, updateScene]);
+
+  // A new pinned moment (or going back to live) starts from its centre
+  useEffect(() => {
+    updateScene({ pinnedTime });
+    cancelAnimationFrame(snapbackRafRef.current);
+    clearTimeout(snapbackTimerRef.current);
+    scrub.set(0);
+  }, [pinnedTime, scrub, updateScene]);
 
   // Theme blend animation (0 = dark, 1 = light)
-  const blendRef = useRef(theme === 'light' ? 1 : 0);
+  const blendRef = useRef(themeBlend);
   const blendTargetRef = useRef(blendRef.current);
 
   useEffect(() => {
-    const target = theme === 'light' ? 1 : 0;
+    const target = themeBlend;
     blendTargetRef.current = target;
     const start = blendRef.current;
     if (start === target) return;
@@ -59,28 +180,29 @@ export function TideCanvas({ data, theme, stationId }: TideCanvasProps) {
     const step = (now: number) => {
       const t = Math.min((now - startTime) / TRANSITION_MS, 1);
       blendRef.current = start + (target - start) * easeInOut(t);
+      updateScene({ themeBlend: blendRef.current });
       if (t < 1) rafId = requestAnimationFrame(step);
     };
 
     rafId = requestAnimationFrame(step);
     return () => cancelAnimationFrame(rafId);
-  }, [theme]);
+  }, [themeBlend, updateScene]);
 
   // Snap-back animation: eases timeOffset back to 0
   const startSnapback = useCallback(() => {
     cancelAnimationFrame(snapbackRafRef.current);
-    const startOffset = timeOffsetRef.current;
-    if (Math.abs(startOffset) < 1) { timeOffsetRef.current = 0; return; }
+    const startOffset = scrub.get();
+    if (Math.abs(startOffset) < 1) { scrub.set(0); return; }
 
     const startTime = performance.now();
     const step = (now: number) => {
       const t = Math.min((now - startTime) / SNAPBACK_MS, 1);
-      timeOffsetRef.current = startOffset * (1 - easeInOut(t));
+      scrub.set(startOffset * (1 - easeInOut(t)));
       if (t < 1) snapbackRafRef.current = requestAnimationFrame(step);
-      else timeOffsetRef.current = 0;
+      else scrub.set(0);
     };
     snapbackRafRef.current = requestAnimationFrame(step);
-  }, []);
+  }, [scrub]);
 
   const scheduleSnapback = useCallback(() => {
     clearTimeout(snapbackTimerRef.current);
@@ -98,24 +220,24 @@ export function TideCanvas({ data, theme, stationId }: TideCanvasProps) {
 
     isDraggingRef.current = true;
     dragStartXRef.current = e.clientX;
-    dragStartOffsetRef.current = timeOffsetRef.current;
-    (e.currentTarget as HTMLCanvasElement).setPointerCapture(e.pointerId);
-  }, [height]);
+    dragStartOffsetRef.current = scrub.get();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+  }, [height, scrub]);
 
   const handlePointerMove = useCallback((e: PointerEvent) => {
-    pointerRef.current = { x: e.clientX, y: e.clientY, active: true };
+    updateScene({ pointer: { x: e.clientX, y: e.clientY, active: true } });
 
     if (isDraggingRef.current) {
       const dx = e.clientX - dragStartXRef.current;
       // Convert pixels to time: dragging left = moving into future (positive offset)
       // Full screen width = total time window
       const pxToMs = TOTAL_WINDOW_MS / (width || 1);
-      timeOffsetRef.current = dragStartOffsetRef.current - dx * pxToMs;
+      const offset = dragStartOffsetRef.current - dx * pxToMs;
       // Clamp to ±6 hours
       const maxOffset = 6 * 3600 * 1000;
-      timeOffsetRef.current = Math.max(-maxOffset, Math.min(maxOffset, timeOffsetRef.current));
+      scrub.set(Math.max(-maxOffset, Math.min(maxOffset, offset)));
     }
-  }, [width]);
+  }, [width, scrub, updateScene]);
 
   const handlePointerUp = useCallback(() => {
     if (isDraggingRef.current) {
@@ -125,12 +247,12 @@ export function TideCanvas({ data, theme, stationId }: TideCanvasProps) {
   }, [scheduleSnapback]);
 
   const handlePointerLeave = useCallback(() => {
-    pointerRef.current = { ...pointerRef.current, active: false };
+    updateScene({ pointer: { ...sceneRef.current.pointer, active: false } });
     if (isDraggingRef.current) {
       isDraggingRef.current = false;
       scheduleSnapback();
     }
-  }, [scheduleSnapback]);
+  }, [scheduleSnapback, updateScene]);
 
   // Wheel to scrub time
   const handleWheel = useCallback((e: WheelEvent) => {
@@ -139,118 +261,51 @@ export function TideCanvas({ data, theme, stationId }: TideCanvasProps) {
     clearTimeout(snapbackTimerRef.current);
 
     const pxToMs = TOTAL_WINDOW_MS / (width || 1);
-    timeOffsetRef.current += e.deltaX * pxToMs * 0.5;
+    let offset = scrub.get() + e.deltaX * pxToMs * 0.5;
     // Also allow vertical scroll (for mice without horizontal scroll)
     if (Math.abs(e.deltaX) < Math.abs(e.deltaY)) {
-      timeOffsetRef.current += e.deltaY * pxToMs * 0.5;
+      offset += e.deltaY * pxToMs * 0.5;
     }
     const maxOffset = 6 * 3600 * 1000;
-    timeOffsetRef.current = Math.max(-maxOffset, Math.min(maxOffset, timeOffsetRef.current));
+    scrub.set(Math.max(-maxOffset, Math.min(maxOffset, offset)));
 
     scheduleSnapback();
-  }, [width, scheduleSnapback]);
+  }, [width, scheduleSnapback, scrub]);
 
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    canvas.addEventListener('pointerdown', handlePointerDown);
-    canvas.addEventListener('pointermove', handlePointerMove);
-    canvas.addEventListener('pointerup', handlePointerUp);
-    canvas.addEventListener('pointerleave', handlePointerLeave);
-    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    const container = containerRef.current;
+    if (!container) return;
+
+    container.addEventListener('pointerdown', handlePointerDown);
+    container.addEventListener('pointermove', handlePointerMove);
+    container.addEventListener('pointerup', handlePointerUp);
+    container.addEventListener('pointerleave', handlePointerLeave);
+    container.addEventListener('wheel', handleWheel, { passive: false });
     return () => {
-      canvas.removeEventListener('pointerdown', handlePointerDown);
-      canvas.removeEventListener('pointermove', handlePointerMove);
-      canvas.removeEventListener('pointerup', handlePointerUp);
-      canvas.removeEventListener('pointerleave', handlePointerLeave);
-      canvas.removeEventListener('wheel', handleWheel);
+      container.removeEventListener('pointerdown', handlePointerDown);
+      container.removeEventListener('pointermove', handlePointerMove);
+      container.removeEventListener('pointerup', handlePointerUp);
+      container.removeEventListener('pointerleave', handlePointerLeave);
+      container.removeEventListener('wheel', handleWheel);
       cancelAnimationFrame(snapbackRafRef.current);
       clearTimeout(snapbackTimerRef.current);
     };
   }, [handlePointerDown, handlePointerMove, handlePointerUp, handlePointerLeave, handleWheel]);
 
-  // Set canvas size and run initial background fill
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    canvas.width = width * dpr;
-    canvas.height = height * dpr;
-    canvas.style.width = `${width}px`;
-    canvas.style.height = `${height}px`;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
-    renderInitialBackground(ctx, width, height, data.currentLevel, blendRef.current);
-  }, [width, height, dpr, data.currentLevel]);
-
-  // Animation loop — reads blendRef each frame, no dependency on theme
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    let animId: number;
-    const FRAME_INTERVAL = 1000 / 30; // cap at 30fps
-
-    const animate = (timestamp: number) => {
-      if (lastFrameRef.current === 0) lastFrameRef.current = timestamp;
-
-      const elapsed = timestamp - lastFrameRef.current;
-      if (elapsed < FRAME_INTERVAL) {
-        animId = requestAnimationFrame(animate);
-        return;
-      }
-
-      const dt = elapsed / 1000;
-      lastFrameRef.current = timestamp;
-      animTimeRef.current += dt;
-
-      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
-
-      const state: VisualizationState = {
-        width,
-        height,
-        dpr,
-        currentLevel: data.currentLevel,
-        tideState: data.tideState,
-        rateOfChange: data.rateOfChange,
-        readings: data.readings,
-        predictions: data.predictions,
-        time: animTimeRef.current,
-        pointer: pointerRef.current,
-        theme,
-        themeBlend: blendRef.current,
-        stationId,
-        timeOffset: timeOffsetRef.current,
-      };
-
-      renderFrame(ctx, state);
-
-      animId = requestAnimationFrame(animate);
-    };
-
-    animId = requestAnimationFrame(animate);
-    return () => cancelAnimationFrame(animId);
-  }, [width, height, dpr, data, theme]);
-
   return (
-    <canvas
-      ref={canvasRef}
-      style={{
-        position: 'fixed',
-        top: 0,
-        left: 0,
-        width: '100%',
-        height: '100%',
-        display: 'block',
-        touchAction: 'none',
-      }}
-    />
+    <>
+      <div
+        ref={containerRef}
+        style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          width: '100%',
+          height: '100%',
+          touchAction: 'none',
+        }}
+      />
+      {stats && <DebugHud stats={stats} />}
+    </>
   );
 }
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import type { TideData } from '../types';
+import type { Station } from '../stations';
+import { buildTideTable } from '../utils/tideTable';
+import type { RangeClass } from '../utils/tideTable';
+
+interface TideTableProps {
+  data: TideData;
+  station: Station;
+  stations: Station[];
+  onSelectStation: (station: Station) => void;
+}
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+}
+
+function rangeClassLabel(rangeClass: RangeClass): string {
+  switch (rangeClass) {
+    case 'spring': return 'Springs';
+    case 'mid': return 'Mid';
+    case 'neap': return 'Neaps';
+  }
+}
+
+export function TideTable({ data, station, stations, onSelectStation }: TideTableProps) {
+  // Fixed when the panel opens, like the time picker
+  const [now] = useState(() => Date.now());
+  const days = buildTideTable(data.predictions, data.harmonics, now);
+  const next = data.predictions.find((e) => e.time.getTime() > now);
+  // Days without events are left out, so the first row isn't necessarily today
+  const todayKey = new Date(now).setHours(0, 0, 0, 0);
+
+  return (
+    <div className="tide-table" onClick={(e) => e.stopPropagation()}>
+      <div className="tide-table-header">
+        <span className="tide-table-heading">Tide table</span>
+        <select
+          value={station.id}
+          onChange={(e) => {
+            const s = stations.find((st) => st.id === e.target.value);
+            if (s) onSelectStation(s);
+          }}
+        >
+          {stations.map((s) => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="tide-table-days">
+        {days.map((day) => (
+          <div
+            key={day.date.getTime()}
+            className={`tide-table-day${day.date.getTime() === todayKey ? ' today' : ''}`}
+          >
+            <div className="tide-table-date">
+              <span>{day.date.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' })}</span>
+              <span className="tide-table-range">
+                {day.range !== null && `Range ${day.range.toFixed(1)} m`}
+                {day.rangeClass && ` · ${rangeClassLabel(day.rangeClass)}`}
+              </span>
+            </div>
+            {day.events.map((e) => (
+              <div
+                key={e.time.getTime()}
+                className={`tide-table-event ${e.type}${e === next ? ' next' : ''}${e.time.getTime() < now ? ' past' : ''}`}
+              >
+                <span className="tide-table-type">{e.type === 'high' ? 'High' : 'Low'}</span>
+                <span className="tide-table-time">{formatTime(e.time)}</span>
+                <span className="tide-table-level">{e.level.toFixed(2)} mAOD</span>
+                {station.cdToMaod !== null && (
+                  <span className="tide-table-level cd">{(e.level - station.cdToMaod).toFixed(2)} m CD</span>
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import type { TideData } from '../types';
+
+interface TimePickerProps {
+  data: TideData;
+  pinnedTime: number | null;
+  onPinTime: (time: number | null) => void;
+}
+
+const HARMONIC_HORIZON_MS = 365 * 24 * 3600 * 1000; // the harmonic model doesn't run out
+
+// <input type="datetime-local"> works in local wall-clock time without a zone
+function toLocalInput(t: number): string {
+  const d = new Date(t);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+export function TimePicker({ data, pinnedTime, onPinTime }: TimePickerProps) {
+  // Fixed when the picker opens — bounds don't need to creep while it's up
+  const [now] = useState(() => Date.now());
+  const [value, setValue] = useState(() => toLocalInput(pinnedTime ?? now));
+
+  // Past: as far back as stored readings go. Future: as far as predictions reach.
+  const earliest = data.readings[0]?.time.getTime() ?? now;
+  const lastEvent = data.predictions[data.predictions.length - 1];
+  const latest = data.harmonics ? now + HARMONIC_HORIZON_MS : lastEvent?.time.getTime() ?? now;
+
+  const pin = (t: number) => {
+    const clamped = Math.max(earliest, Math.min(latest, t));
+    setValue(toLocalInput(clamped));
+    onPinTime(clamped);
+  };
+
+  const stepDays = (days: number) => {
+    pin((pinnedTime ?? now) + days * 24 * 3600 * 1000);
+  };
+
+  return (
+    <div className="time-picker" onClick={(e) => e.stopPropagation()}>
+      <div className="time-picker-heading">View a moment</div>
+      <input
+        type="datetime-local"
+        value={value}
+        min={toLocalInput(earliest)}
+        max={toLocalInput(latest)}
+        onChange={(e) => {
+          setValue(e.target.value);
+          const t = new Date(e.target.value).getTime();
+          if (Number.isFinite(t)) pin(t);
+        }}
+      />
+      <div className="time-picker-steps">
+        <button onClick={() => stepDays(-1)}>−1 day</button>
+        <button onClick={() => stepDays(1)}>+1 day</button>
+        <button onClick={() => stepDays(7)}>+1 week</button>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,21 @@
-import { createNoise3D } from 'simplex-noise';
 import type { VisualizationState } from '../types';
 import { mapRange } from '../utils/math';
-import { levelToHSL } from './color';
+import { levelToHSL, hslToRgb } from './color';
+import { engineNoise3D } from './random';
 
 // Two independent noise fields for the two "surfaces" that create caustics
-const noiseA = createNoise3D();
-const noiseB = createNoise3D();
+const noiseA = engineNoise3D();
+const noiseB = engineNoise3D();
 
 // ── Resolution: render at reduced res then draw scaled ──
-// Caustics are soft/blurry by nature so half-res looks great and is 4x cheaper
-const CELL = 6; // pixel size of each caustic cell
+// Caustics are soft/blurry by nature so a coarse grid looks great and is far
+// cheaper. The cell size (px per noise sample) comes from state.quality.
 
-// ── Noise sampling ──
-const SCALE_A = 0.0035;
-const SCALE_B = 0.005;
-const TIME_A = 0.12;
-const TIME_B = 0.09;
+// ── Noise sampling (shared with the WebGL shader) ──
+export const SCALE_A = 0.0035;
+export const SCALE_B = 0.005;
+export const TIME_A = 0.12;
+export const TIME_B = 0.09;
 
 // ── Drift (tide direction) ──
 const MAX_DRIFT = 1.2; // pixels per frame at full rate-of-change
@@ -35,20 +35,28 @@ function ensureBuffer(w: number, h: number) {
   buffer = new ImageData(w, h);
 }
 
-export function drawCaustics(
-  ctx: CanvasRenderingContext2D,
-  state: VisualizationState
-): void {
-  const { width, height, currentLevel, tideState, rateOfChange, time, themeBlend } = state;
+export interface CausticsParams {
+  driftX: number;
+  intensity: number;
+  hue: number;           // degrees
+  baseSat: number;       // %
+  baseLightness: number; // %
+}
+
+/** Advance the shared drift by one frame and work out this frame's look. */
+export function advanceCaustics(state: VisualizationState): CausticsParams {
+  const { currentLevel, tideState, rateOfChange, themeBlend, dataConfidence, rangeFactor } = state;
 
   // ── Drift accumulation ──
   // Falling/low slack = downstream = right (+1), rising/high slack = upstream = left (-1)
   const tideBias = tideState === 'falling' || tideState === 'low_slack' ? 1 : -1;
   const speedMult = mapRange(Math.abs(rateOfChange), 0, 2, 0.2, 1.0);
-  driftX += tideBias * speedMult * MAX_DRIFT;
+  // Suspect data: slow and soften rather than animate a river we can't vouch for
+  const calm = 0.5 + 0.5 * dataConfidence;
+  driftX += tideBias * speedMult * MAX_DRIFT * calm;
 
-  // ── Intensity scales with rate of change ──
-  const intensity = mapRange(Math.abs(rateOfChange), 0, 2, 0.4, 1.0);
+  // ── Intensity scales with rate of change, and with the spring/neap range ──
+  const intensity = mapRange(Math.abs(rateOfChange), 0, 2, 0.4, 1.0) * mapRange(rangeFactor, 0, 1, 0.8, 1.15) * calm;
 
   // ── Colour from water level ──
   const [h, s, l] = levelToHSL(currentLevel);
@@ -64,16 +72,27 @@ export function drawCaustics(
   const lightSat = s * 0.7;
   const baseSat = darkSat + (lightSat - darkSat) * themeBlend;
 
+  return { driftX, intensity, hue: h, baseSat, baseLightness };
+}
+
+export function drawCaustics(
+  ctx: CanvasRenderingContext2D,
+  state: VisualizationState
+): void {
+  const { width, height, time, themeBlend, quality } = state;
+  const cell = quality.causticCell;
+  const { driftX, intensity, hue: h, baseSat, baseLightness } = advanceCaustics(state);
+
   // ── Compute caustic grid ──
-  const cols = Math.ceil(width / CELL);
-  const rows = Math.ceil(height / CELL);
+  const cols = Math.ceil(width / cell);
+  const rows = Math.ceil(height / cell);
   ensureBuffer(cols, rows);
   const data = buffer!.data;
 
   for (let gy = 0; gy < rows; gy++) {
-    const worldY = gy * CELL;
+    const worldY = gy * cell;
     for (let gx = 0; gx < cols; gx++) {
-      const worldX = gx * CELL - driftX;
+      const worldX = gx * cell - driftX;
 
       // Sample two noise fields
       const a = noiseA(worldX * SCALE_A, worldY * SCALE_A, time * TIME_A);
@@ -131,27 +150,3 @@ export function drawCaustics(
 export function resetCausticsDrift(): void {
   driftX = 0;
 }
-
-// ── Fast HSL → RGB ──
-function hslToRgb(h: number, s: number, l: number): [number, number, number] {
-  if (s === 0) {
-    const v = Math.round(l * 255);
-    return [v, v, v];
-  }
-  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-  const p = 2 * l - q;
-  return [
-    Math.round(hue2rgb(p, q, h + 1 / 3) * 255),
-    Math.round(hue2rgb(p, q, h) * 255),
-    Math.round(hue2rgb(p, q, h - 1 / 3) * 255),
-  ];
-}
-
-function hue2rgb(p: number, q: number, t: number): number {
-  if (t < 0) t += 1;
-  if (t > 1) t -= 1;
-  if (t < 1 / 6) return p + (q - p) * 6 * t;
-  if (t < 1 / 2) return q;
-  if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
-  return p;
-}
@@ -0,0 +1,104 @@
+import type { VisualizationState } from '../types';
+import { advanceCaustics, SCALE_A, SCALE_B, TIME_A, TIME_B } from './caustics';
+import {
+  getGL, sizeGL, disableGL, compileProgram, uniforms, glFloat,
+  FULLSCREEN_VS, HSL_GLSL, SIMPLEX_NOISE_GLSL,
+} from './webgl';
+
+// Same pattern as caustics.ts, one fragment per pixel instead of one noise
+// sample per cell. Rendered at a fraction of the CSS size and scaled up — at
+// the default 6 px cell that's half size, still ~9x the 2D path's density,
+// and caustics are soft anyway.
+const SAMPLES_PER_CELL = 3; // along each axis
+
+
+const FRAGMENT = `#version 300 es
+precision highp float;
+
+uniform float u_height;    // viewport height, GL pixels
+uniform float u_scale;     // GL pixels per CSS pixel
+uniform float u_drift;
+uniform float u_time;
+uniform float u_intensity;
+uniform float u_light;     // 0 = dark-mode look, 1 = light-mode look
+uniform vec3 u_base;       // hue 0..1, saturation %, lightness %
+
+out vec4 outColor;
+${SIMPLEX_NOISE_GLSL}
+${HSL_GLSL}
+
+void main() {
+  float worldX = gl_FragCoord.x / u_scale - u_drift;
+  float worldY = (u_height - gl_FragCoord.y) / u_scale;
+
+  // Two independent fields: the second is the same noise well away from the first
+  float a = snoise(vec3(worldX * ${glFloat(SCALE_A)}, worldY * ${glFloat(SCALE_A)}, u_time * ${glFloat(TIME_A)}));
+  float b = snoise(vec3(worldX * ${glFloat(SCALE_B)} + 71.3, worldY * ${glFloat(SCALE_B)} + 23.9, u_time * ${glFloat(TIME_B)} + 50.0));
+
+  float caustic = pow((a + 1.0) * 0.5 * (b + 1.0) * 0.5, 0.6);
+  caustic = max(0.0, (caustic - 0.25) / 0.75);
+  caustic = min(caustic * caustic * u_intensity, 1.0);
+
+  float l, s;
+  if (u_light < 0.5) {
+    l = u_base.z + caustic * (20.0 + u_intensity * 15.0);
+    s = u_base.y + caustic * 20.0;
+  } else {
+    l = u_base.z - caustic * (8.0 + u_intensity * 6.0);
+    s = u_base.y + caustic * 15.0;
+  }
+  outColor = vec4(hsl2rgb(vec3(u_base.x, min(s, 100.0) / 100.0, clamp(l, 0.0, 100.0) / 100.0)), 1.0);
+}`;
+
+const UNIFORMS = ['u_height', 'u_scale', 'u_drift', 'u_time', 'u_intensity', 'u_light', 'u_base'] as const;
+
+let compiled: {
+  gl: WebGL2RenderingContext;
+  program: WebGLProgram;
+  u: Record<(typeof UNIFORMS)[number], WebGLUniformLocation | null>;
+} | null = null;
+
+/** Draw the caustics with WebGL; false means nothing was drawn and the caller should use Canvas 2D. */
+export function drawCausticsGL(ctx: CanvasRenderingContext2D, state: VisualizationState): boolean {
+  const shared = getGL();
+  if (!shared) return false;
+  const { gl, canvas } = shared;
+
+  if (compiled?.gl !== gl) {
+    const program = compileProgram(gl, FULLSCREEN_VS, FRAGMENT);
+    if (!program) {
+      disableGL();
+      return false;
+    }
+    compiled = { gl, program, u: uniforms(gl, program, UNIFORMS) };
+  }
+
+  const { width, height, dpr, time, themeBlend, quality } = state;
+  const { driftX, intensity, hue, baseSat, baseLightness } = advanceCaustics(state);
+
+  // Shared canvas is device-sized; we only need its bottom-left corner
+  sizeGL(shared, Math.ceil(width * dpr), Math.ceil(height * dpr));
+  const scale = Math.min(SAMPLES_PER_CELL / quality.causticCell, dpr);
+  const w = Math.ceil(width * scale);
+  const h = Math.ceil(height * scale);
+
+  const { program, u } = compiled;
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  gl.viewport(0, 0, w, h);
+  gl.disable(gl.BLEND);
+  gl.useProgram(program);
+  gl.bindVertexArray(null);
+  gl.uniform1f(u.u_height, h);
+  gl.uniform1f(u.u_scale, scale);
+  gl.uniform1f(u.u_drift, driftX);
+  gl.uniform1f(u.u_time, time);
+  gl.uniform1f(u.u_intensity, intensity);
+  gl.uniform1f(u.u_light, themeBlend < 0.5 ? 0 : 1);
+  gl.uniform3f(u.u_base, hue / 360, baseSat, baseLightness);
+  gl.drawArrays(gl.TRIANGLES, 0, 3);
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'low';
+  ctx.drawImage(canvas, 0, canvas.height - h, w, h, 0, 0, width, height);
+  return true;
+}
@@ -55,13 +55,18 @@ export function levelToBackground(level: number, blend: number): string {
   return `hsl(${h}, ${finalS}%, ${finalL}%)`;
 }
 
-export function levelToParticleColor(level: number, alpha: number, blend: number): string {
+export function levelToParticleHSL(level: number, blend: number): [number, number, number] {
   const [h, s, l] = levelToHSL(level);
   const darkS = Math.min(s + 15, 100);
   const darkL = clamp(l + 15, 25, 40);
   const lightS = Math.min(s + 25, 100);
   const lightL = clamp(l + 15, 35, 55);
-  return `hsla(${h}, ${mix(darkS, lightS, blend)}%, ${mix(darkL, lightL, blend)}%, ${alpha})`;
+  return [h, mix(darkS, lightS, blend), mix(darkL, lightL, blend)];
+}
+
+export function levelToParticleColor(level: number, alpha: number, blend: number): string {
+  const [h, s, l] = levelToParticleHSL(level, blend);
+  return `hsla(${h}, ${s}%, ${l}%, ${alpha})`;
 }
 
 export function levelToGlowColor(level: number, alpha: number, blend: number): string {
@@ -78,3 +83,28 @@ export function needsDarkText(_level: number, blend: number): boolean {
   // Caustics background is always pale in light mode — always use dark text
   return blend >= 0.5;
 }
+
+// ── Fast HSL → RGB ──
+// h, s, l in 0..1; returns 0..255 channels for ImageData and WebGL uniforms
+export function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  if (s === 0) {
+    const v = Math.round(l * 255);
+    return [v, v, v];
+  }
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  return [
+    Math.round(hue2rgb(p, q, h + 1 / 3) * 255),
+    Math.round(hue2rgb(p, q, h) * 255),
+    Math.round(hue2rgb(p, q, h - 1 / 3) * 255),
+  ];
+}
+
+function hue2rgb(p: number, q: number, t: number): number {
+  if (t < 0) t += 1;
+  if (t > 1) t -= 1;
+  if (t < 1 / 6) return p + (q - p) * 6 * t;
+  if (t < 1 / 2) return q;
+  if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+  return p;
+}
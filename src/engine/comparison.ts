@@ -0,0 +1,315 @@
+import { mapRange } from '../utils/math';
+import { interpolatePredictions, levelAtTime } from '../utils/predictions';
+import type { LevelPoint } from '../utils/predictions';
+import type { ComparisonFeed } from '../utils/comparison';
+import { formatLag, traceHighWater } from '../utils/comparison';
+import { momentReadout } from '../utils/moment';
+import { levelToGlowColor, levelToBackground } from './color';
+
+// Estuary comparison: each station's curve stacked seaward-at-the-bottom, or
+// the water surface along the river at one moment (the long profile).
+
+const TOP = 90;
+const BOTTOM = 44;
+const SIDE = 32;
+const LABEL_WIDTH = 150;
+const PAST_MS = 6 * 3600 * 1000;
+const FUTURE_MS = 18 * 3600 * 1000;
+
+export interface ComparisonFrame {
+  width: number;
+  height: number;
+  themeBlend: number;
+  now: number;
+  viewTime: number;        // moment shown on the long profile
+  threshold: number | null; // mAOD the user needs, shaded where the river has it
+}
+
+interface Curve {
+  points: LevelPoint[];
+  min: number;
+  max: number;
+}
+
+function curveFor(feed: ComparisonFeed, start: number, end: number): Curve {
+  const points = interpolatePredictions(feed.data.predictions, start, end, feed.data.harmonics);
+  let min = Infinity;
+  let max = -Infinity;
+  for (const p of points) {
+    min = Math.min(min, p.level);
+    max = Math.max(max, p.level);
+  }
+  return { points, min, max };
+}
+
+// Shared level scale so upstream stations visibly sit higher
+function levelBounds(curves: Curve[]): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const c of curves) {
+    if (c.points.length === 0) continue;
+    min = Math.min(min, c.min);
+    max = Math.max(max, c.max);
+  }
+  if (!Number.isFinite(min)) return [-3, 4];
+  const pad = (max - min) * 0.08 || 0.5;
+  return [min - pad, max + pad];
+}
+
+function formatTime(t: number): string {
+  const d = new Date(t);
+  return `${d.getHours().toString().padStart(2, '0')}:${d.getMinutes().toString().padStart(2, '0')}`;
+}
+
+function textColor(blend: number, alpha: number): string {
+  const tw = Math.round(255 * (1 - blend));
+  return `rgba(${tw},${tw},${tw},${alpha})`;
+}
+
+export function drawStackedCurves(
+  ctx: CanvasRenderingContext2D,
+  feeds: ComparisonFeed[],
+  frame: ComparisonFrame
+): void {
+  const { width, height, themeBlend, now, threshold } = frame;
+  ctx.fillStyle = levelToBackground(0, themeBlend);
+  ctx.fillRect(0, 0, width, height);
+  if (feeds.length === 0) return;
+
+  const start = now - PAST_MS;
+  const end = now + FUTURE_MS;
+  const curves = feeds.map((f) => curveFor(f, start, end));
+  const [minLevel, maxLevel] = levelBounds(curves);
+
+  const plotLeft = SIDE + LABEL_WIDTH;
+  const plotRight = width - SIDE;
+  const rowHeight = (height - TOP - BOTTOM) / feeds.length;
+  const timeToX = (t: number) => mapRange(t, start, end, plotLeft, plotRight);
+  // Seaward station at the bottom, so high water climbs the screen as it goes upstream
+  const rowTop = (i: number) => TOP + (feeds.length - 1 - i) * rowHeight;
+  const levelToY = (i: number, l: number) =>
+    rowTop(i) + rowHeight - 6 - mapRange(l, minLevel, maxLevel, 0, rowHeight - 12);
+
+  // The next high water, traced upstream, labels each row
+  const lags = traceHighWater(feeds, now);
+
+  ctx.font = '10px monospace';
+
+  feeds.forEach((feed, i) => {
+    const { points } = curves[i];
+    const top = rowTop(i);
+
+    // Row separator and labels
+    ctx.fillStyle = textColor(themeBlend, 0.06);
+    ctx.fillRect(plotLeft, top + rowHeight - 1, plotRight - plotLeft, 1);
+
+    ctx.textAlign = 'left';
+    ctx.fillStyle = textColor(themeBlend, 0.75);
+    ctx.fillText(feed.station.name.toUpperCase(), SIDE, top + rowHeight / 2 - 6);
+    ctx.fillStyle = textColor(themeBlend, 0.45);
+    ctx.fillText(`${feed.data.currentLevel.toFixed(2)} mAOD`, SIDE, top + rowHeight / 2 + 8);
+    const lag = lags[i];
+    if (lag?.event) {
+      const label = i === 0
+        ? `HW ${formatTime(lag.event.time.getTime())}`
+        : `HW ${formatTime(lag.event.time.getTime())} ${formatLag(lag.lagMs!)}`;
+      ctx.fillText(label, SIDE, top + rowHeight / 2 + 22);
+    }
+
+    if (points.length < 2) return;
+
+    // Enough water: shade between the threshold and the curve wherever it's above
+    if (threshold !== null) {
+      const ty = levelToY(i, threshold);
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(plotLeft, top, plotRight - plotLeft, ty - top);
+      ctx.clip();
+      ctx.beginPath();
+      ctx.moveTo(timeToX(points[0].time), ty);
+      for (const p of points) ctx.lineTo(timeToX(p.time), levelToY(i, p.level));
+      ctx.lineTo(timeToX(points[points.length - 1].time), ty);
+      ctx.closePath();
+      ctx.fillStyle = levelToGlowColor(threshold, 0.25, themeBlend);
+      ctx.fill();
+      ctx.restore();
+
+      ctx.setLineDash([3, 4]);
+      ctx.beginPath();
+      ctx.moveTo(plotLeft, ty);
+      ctx.lineTo(plotRight, ty);
+      ctx.strokeStyle = textColor(themeBlend, 0.2);
+      ctx.lineWidth = 1;
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    // Predicted curve
+    ctx.beginPath();
+    points.forEach((p, j) => {
+      const x = timeToX(p.time);
+      const y = levelToY(i, p.level);
+      if (j === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+    });
+    ctx.strokeStyle = levelToGlowColor(feed.data.currentLevel, 0.8, themeBlend);
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+
+    // Observed trace
+    const observed = feed.data.readings.filter((r) => r.time.getTime() >= start && r.time.getTime() <= now);
+    if (observed.length > 1) {
+      ctx.beginPath();
+      observed.forEach((r, j) => {
+        const x = timeToX(r.time.getTime());
+        const y = levelToY(i, r.level);
+        if (j === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+      });
+      ctx.strokeStyle = textColor(themeBlend, 0.7);
+      ctx.lineWidth = 1;
+      ctx.stroke();
+    }
+  });
+
+  // Each high water carried upstream: join its traced highs row to row
+  for (let from = start; from < end; ) {
+    const trace = traceHighWater(feeds, from);
+    if (!trace[0]?.event) break;
+    from = trace[0].event.time.getTime() + 60_000;
+
+    const points = trace.flatMap(({ event }, i) => {
+      if (!event) return [];
+      const t = event.time.getTime();
+      if (t < start || t > end) return [];
+      return [{ x: timeToX(t), y: levelToY(i, levelAtTime(curves[i].points, t) ?? event.level), level: event.level }];
+    });
+
+    if (points.length > 1) {
+      ctx.setLineDash([4, 3]);
+      ctx.beginPath();
+      points.forEach((p, j) => (j === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.strokeStyle = textColor(themeBlend, 0.5);
+      ctx.lineWidth = 1;
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+    for (const p of points) {
+      ctx.beginPath();
+      ctx.moveTo(p.x, p.y - 5);
+      ctx.lineTo(p.x + 4, p.y);
+      ctx.lineTo(p.x, p.y + 5);
+      ctx.lineTo(p.x - 4, p.y);
+      ctx.closePath();
+      ctx.fillStyle = levelToGlowColor(p.level, 0.95, themeBlend);
+      ctx.fill();
+    }
+  }
+
+  // Now line and hourly axis
+  const nowX = timeToX(now);
+  ctx.fillStyle = textColor(themeBlend, 0.2);
+  ctx.fillRect(nowX, TOP, 1, height - TOP - BOTTOM);
+
+  ctx.textAlign = 'center';
+  ctx.fillStyle = textColor(themeBlend, 0.5);
+  const interval = (plotRight - plotLeft < 500 ? 6 : 3) * 3600 * 1000;
+  for (let t = Math.ceil(start / interval) * interval; t <= end; t += interval) {
+    ctx.fillText(formatTime(t), timeToX(t), height - BOTTOM + 24);
+  }
+}
+
+export function drawLongProfile(
+  ctx: CanvasRenderingContext2D,
+  feeds: ComparisonFeed[],
+  frame: ComparisonFrame
+): void {
+  const { width, height, themeBlend, now, viewTime, threshold } = frame;
+  const placed = feeds.filter((f) => f.station.riverKm !== undefined);
+
+  const readouts = placed.map((f) => momentReadout(f.data, viewTime));
+  const surfaceLevel = readouts.find((r) => r)?.level ?? 0;
+  ctx.fillStyle = levelToBackground(surfaceLevel, themeBlend);
+  ctx.fillRect(0, 0, width, height);
+  if (placed.length < 2) return;
+
+  // Scale over the whole day so the profile rises and falls rather than rescaling
+  const curves = placed.map((f) => curveFor(f, now - PAST_MS, now + FUTURE_MS));
+  const [minLevel, maxLevel] = levelBounds(curves);
+  const kms = placed.map((f) => f.station.riverKm!);
+  const minKm = Math.min(...kms);
+  const maxKm = Math.max(...kms);
+
+  const plotTop = TOP + 20;
+  const plotBottom = height - BOTTOM - 30;
+  // Sea on the right, as the river runs on most maps of London
+  const kmToX = (km: number) => mapRange(km, minKm, maxKm, width - SIDE - 60, SIDE + 60);
+  const levelToY = (l: number) => plotBottom - mapRange(l, minLevel, maxLevel, 0, plotBottom - plotTop);
+
+  // Tidal envelope: the day's lowest and highest water at each station
+  ctx.beginPath();
+  kms.forEach((km, i) => {
+    const x = kmToX(km);
+    if (i === 0) ctx.moveTo(x, levelToY(curves[i].max)); else ctx.lineTo(x, levelToY(curves[i].max));
+  });
+  for (let i = placed.length - 1; i >= 0; i--) ctx.lineTo(kmToX(kms[i]), levelToY(curves[i].min));
+  ctx.closePath();
+  ctx.fillStyle = textColor(themeBlend, 0.05);
+  ctx.fill();
+
+  // Water surface at the chosen moment
+  const surface = placed.flatMap((_, i) => (readouts[i] ? [{ x: kmToX(kms[i]), y: levelToY(readouts[i]!.level), level: readouts[i]!.level }] : []));
+  if (surface.length > 1) {
+    ctx.beginPath();
+    ctx.moveTo(surface[0].x, plotBottom);
+    for (const p of surface) ctx.lineTo(p.x, p.y);
+    ctx.lineTo(surface[surface.length - 1].x, plotBottom);
+    ctx.closePath();
+    const fill = ctx.createLinearGradient(0, plotTop, 0, plotBottom);
+    fill.addColorStop(0, levelToGlowColor(surfaceLevel, 0.45 - themeBlend * 0.2, themeBlend));
+    fill.addColorStop(1, levelToGlowColor(surfaceLevel, 0.02, themeBlend));
+    ctx.fillStyle = fill;
+    ctx.fill();
+
+    ctx.beginPath();
+    surface.forEach((p, j) => (j === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.strokeStyle = levelToGlowColor(surfaceLevel, 1, themeBlend);
+    ctx.lineWidth = 2;
+    ctx.stroke();
+  }
+
+  if (threshold !== null) {
+    const ty = levelToY(threshold);
+    ctx.setLineDash([3, 4]);
+    ctx.beginPath();
+    ctx.moveTo(SIDE, ty);
+    ctx.lineTo(width - SIDE, ty);
+    ctx.strokeStyle = textColor(themeBlend, 0.35);
+    ctx.lineWidth = 1;
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  // Stations: tick, name, level
+  ctx.font = '10px monospace';
+  ctx.textAlign = 'center';
+  placed.forEach((f, i) => {
+    const x = kmToX(kms[i]);
+    ctx.fillStyle = textColor(themeBlend, 0.12);
+    ctx.fillRect(x, plotTop, 1, plotBottom - plotTop);
+
+    ctx.fillStyle = textColor(themeBlend, 0.7);
+    ctx.fillText(f.station.name.toUpperCase(), x, plotBottom + 18);
+    ctx.fillStyle = textColor(themeBlend, 0.4);
+    ctx.fillText(`${kms[i]} km`, x, plotBottom + 32);
+
+    const r = readouts[i];
+    if (r) {
+      const y = levelToY(r.level);
+      ctx.beginPath();
+      ctx.arc(x, y, 3.5, 0, Math.PI * 2);
+      ctx.fillStyle = textColor(themeBlend, 0.9);
+      ctx.fill();
+      ctx.fillStyle = textColor(themeBlend, 0.75);
+      ctx.fillText(r.level.toFixed(2), x, y - 10);
+    }
+  });
+}
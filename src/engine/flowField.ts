@@ -1,38 +1,55 @@
-import { createNoise3D } from 'simplex-noise';
 import type { TideState } from '../types';
 import { mapRange } from '../utils/math';
+import { engineNoise3D } from './random';
 
-const noise3D = createNoise3D();
+const noise3D = engineNoise3D();
 
-const NOISE_SCALE = 0.001;
-const TIME_SCALE = 0.04;
+// Shared with the WebGL particle shader
+export const NOISE_SCALE = 0.001;
+export const TIME_SCALE = 0.04;
+const BARRIER_DRIFT = 0.25; // fluvial flow alone, slower than any slack tide
 
 export interface FlowVector {
   x: number;
   y: number;
 }
 
+/**
+ * The stream under the wobble: direction (+1 = right/seaward, −1 = left/upstream)
+ * and a speed multiplier.
+ */
+export function streamFlow(
+  tideState: TideState,
+  rateOfChange: number,
+  barrierClosed = false
+): { bias: number; speed: number } {
+  // Primary flow direction: falling = right (+1), rising = left (-1). Behind a
+  // closed barrier there's no tide, only the river's own drift seaward.
+  const bias = !barrierClosed && (tideState === 'rising' || tideState === 'high_slack') ? -1 : 1;
+
+  // Speed scales with rate of change — fast at mid-tide, gentle at slack
+  const speed = barrierClosed ? BARRIER_DRIFT : mapRange(Math.abs(rateOfChange), 0, 2, 0.4, 1.0);
+  return { bias, speed };
+}
+
 export function getFlowAt(
   x: number,
   y: number,
   time: number,
   tideState: TideState,
-  rateOfChange: number
+  rateOfChange: number,
+  barrierClosed = false
 ): FlowVector {
   // Noise adds gentle waviness — small angular perturbation, not full rotation
   const noiseVal = noise3D(x * NOISE_SCALE, y * NOISE_SCALE, time * TIME_SCALE);
   const wobbleAngle = noiseVal * Math.PI * 0.35; // max ±63° deviation
 
-  // Primary flow direction: falling = right (+1), rising = left (-1)
-  const tideBias = tideState === 'rising' || tideState === 'high_slack' ? -1 : 1;
+  const { bias, speed: speedMult } = streamFlow(tideState, rateOfChange, barrierClosed);
 
   // Tidal direction is the dominant force
-  const baseAngle = tideBias > 0 ? 0 : Math.PI; // 0 = right, PI = left
+  const baseAngle = bias > 0 ? 0 : Math.PI; // 0 = right, PI = left
   const angle = baseAngle + wobbleAngle;
 
-  // Speed scales with rate of change — fast at mid-tide, gentle at slack
-  const speedMult = mapRange(Math.abs(rateOfChange), 0, 2, 0.4, 1.0);
-
   return {
     x: Math.cos(angle) * speedMult,
     y: Math.sin(angle) * speedMult * 0.4, // suppress vertical movement
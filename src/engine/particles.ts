@@ -1,20 +1,23 @@
 import type { Particle, VisualizationState } from '../types';
 import { getFlowAt } from './flowField';
 import { levelToParticleColor } from './color';
-
-const PARTICLE_COUNT = 1200;
-const BASE_SPEED = 1.1;
-const MIN_LIFE = 500;
-const MAX_LIFE = 1200;
-const POINTER_RADIUS = 80;
-const POINTER_FORCE = 1.2;
+import { MAX_PARTICLE_COUNT } from './quality';
+import { random } from './random';
+
+// Shared with the WebGL particle shader. How many particles there are comes
+// from state.quality.
+export const BASE_SPEED = 1.1;
+export const MIN_LIFE = 500;
+export const MAX_LIFE = 1200;
+export const POINTER_RADIUS = 80;
+export const POINTER_FORCE = 1.2;
 const TRAIL_LENGTH = 60;
 const ALPHA_BUCKETS = 8; // batch particles into N alpha levels
 
 function createParticle(width: number, height: number): Particle {
-  const x = Math.random() * width;
-  const y = Math.random() * height;
-  const maxLife = MIN_LIFE + Math.random() * (MAX_LIFE - MIN_LIFE);
+  const x = random() * width;
+  const y = random() * height;
+  const maxLife = MIN_LIFE + random() * (MAX_LIFE - MIN_LIFE);
   return {
     x,
     y,
@@ -23,10 +26,10 @@ function createParticle(width: number, height: number): Particle {
     trail: new Float32Array(TRAIL_LENGTH * 2),
     trailHead: 0,
     trailCount: 0,
-    speed: 0.6 + Math.random() * 0.8,
-    life: Math.random() * maxLife,
+    speed: 0.6 + random() * 0.8,
+    life: random() * maxLife,
     maxLife,
-    size: 0.8 + Math.random() * 1.2,
+    size: 0.8 + random() * 1.2,
   };
 }
 
@@ -68,26 +71,28 @@ interface DrawEntry {
   len: number;
 }
 
-const drawEntries: DrawEntry[] = new Array(PARTICLE_COUNT);
-for (let i = 0; i < PARTICLE_COUNT; i++) {
+const drawEntries: DrawEntry[] = new Array(MAX_PARTICLE_COUNT);
+for (let i = 0; i < MAX_PARTICLE_COUNT; i++) {
   drawEntries[i] = { tailBucket: 0, headBucket: 0, tailWidth: 0, headWidth: 0, headStart: 0, len: 0 };
 }
 
 let particles: Particle[] = [];
 
-export function initParticles(width: number, height: number): void {
-  particles = Array.from({ length: PARTICLE_COUNT }, () => createParticle(width, height));
+export function initParticles(width: number, height: number, count: number): void {
+  particles = Array.from({ length: count }, () => createParticle(width, height));
 }
 
 export function updateAndDrawParticles(
   ctx: CanvasRenderingContext2D,
   state: VisualizationState
 ): void {
-  const { width, height, currentLevel, tideState, rateOfChange, time, pointer, themeBlend } = state;
+  const { width, height, currentLevel, tideState, rateOfChange, time, pointer, themeBlend, barrierClosed, quality } = state;
 
-  while (particles.length < PARTICLE_COUNT) {
+  const count = Math.min(quality.particleCount, MAX_PARTICLE_COUNT);
+  while (particles.length < count) {
     particles.push(createParticle(width, height));
   }
+  if (particles.length > count) particles.length = count;
 
   // ── Update phase ──
   let drawCount = 0;
@@ -111,7 +116,7 @@ export function updateAndDrawParticles(
       continue;
     }
 
-    const flow = getFlowAt(p.x, p.y, time, tideState, rateOfChange);
+    const flow = getFlowAt(p.x, p.y, time, tideState, rateOfChange, barrierClosed);
 
     let fx = flow.x * p.speed * BASE_SPEED;
     let fy = flow.y * p.speed * BASE_SPEED;
@@ -249,11 +254,15 @@ export function updateAndDrawParticles(
   }
 }
 
+export function resetParticles(): void {
+  particles = [];
+}
+
 export function resizeParticles(width: number, height: number): void {
   for (const p of particles) {
     if (p.x > width || p.y > height) {
-      p.x = Math.random() * width;
-      p.y = Math.random() * height;
+      p.x = random() * width;
+      p.y = random() * height;
       p.prevX = p.x;
       p.prevY = p.y;
       p.trailHead = 0;
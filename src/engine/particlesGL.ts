@@ -0,0 +1,317 @@
+import type { VisualizationState } from '../types';
+import { NOISE_SCALE, TIME_SCALE, streamFlow } from './flowField';
+import { hslToRgb, levelToParticleHSL } from './color';
+import { BASE_SPEED, MIN_LIFE, MAX_LIFE, POINTER_RADIUS, POINTER_FORCE } from './particles';
+import { MAX_PARTICLE_COUNT } from './quality';
+import { random } from './random';
+import {
+  getGL, sizeGL, disableGL, compileProgram, uniforms, glFloat,
+  FULLSCREEN_VS, SIMPLEX_NOISE_GLSL,
+} from './webgl';
+
+// The flow-field particles with the advection on the GPU: positions live in a
+// pair of buffers and a transform-feedback pass steps one into the other each
+// frame, using the same flow field and pointer push as particles.ts. Trails
+// come from drawing heads into a texture that fades a little every frame
+// rather than from stroking each particle's history.
+
+const TRAIL_DECAY = 0.93;        // per frame — ~60 frames to fade, like TRAIL_LENGTH
+const TRAIL_FLOOR = 2 / 255;     // subtracted too, so 8-bit rounding can't leave ghosts
+const HEAD_ALPHA = 0.5;          // per-frame deposit; overlapping frames build it up
+
+// ── Shaders ──
+
+const UPDATE_VS = `#version 300 es
+precision highp float;
+
+layout(location = 0) in vec4 a_state; // x, y, life, maxLife (CSS px, frames)
+layout(location = 1) in vec2 a_props; // speed, size
+
+uniform vec2 u_size;
+uniform float u_time;
+uniform float u_bias;
+uniform float u_speed;
+uniform float u_seed;
+uniform vec3 u_pointer; // x, y, active
+
+out vec4 v_state;
+${SIMPLEX_NOISE_GLSL}
+
+const float PI = 3.14159265;
+
+float hash(float n) {
+  return fract(sin(n) * 43758.5453);
+}
+
+vec4 spawn() {
+  float id = float(gl_VertexID) + u_seed;
+  float maxLife = ${glFloat(MIN_LIFE)} + hash(id * 1.7) * ${glFloat(MAX_LIFE - MIN_LIFE)};
+  return vec4(hash(id * 3.1) * u_size.x, hash(id * 5.3) * u_size.y, hash(id * 7.9) * maxLife, maxLife);
+}
+
+void main() {
+  vec2 p = a_state.xy;
+
+  float wobble = snoise(vec3(p * ${glFloat(NOISE_SCALE)}, u_time * ${glFloat(TIME_SCALE)})) * PI * 0.35;
+  float angle = (u_bias > 0.0 ? 0.0 : PI) + wobble;
+  vec2 f = vec2(cos(angle), sin(angle) * 0.4) * u_speed * a_props.x * ${glFloat(BASE_SPEED)};
+
+  if (u_pointer.z > 0.5) {
+    vec2 d = p - u_pointer.xy;
+    float dist = length(d);
+    if (dist < ${glFloat(POINTER_RADIUS)} && dist > 1.0) {
+      float t = 1.0 - dist / ${glFloat(POINTER_RADIUS)};
+      f.y += (d.y >= 0.0 ? 1.0 : -1.0) * t * t * t * ${glFloat(POINTER_FORCE)};
+
+      if (dist < ${glFloat(POINTER_RADIUS * 0.4)}) {
+        vec2 rad = d / dist;
+        float inward = dot(f, rad);
+        if (inward < 0.0) f -= inward * rad * 0.7;
+      }
+    }
+  }
+
+  p += f;
+  float life = a_state.z - 1.0;
+  bool gone = life <= 0.0 || p.x < -50.0 || p.x > u_size.x + 50.0 || p.y < -50.0 || p.y > u_size.y + 50.0;
+  v_state = gone ? spawn() : vec4(p, life, a_state.w);
+}`;
+
+const UPDATE_FS = `#version 300 es
+precision mediump float;
+out vec4 outColor;
+void main() {
+  outColor = vec4(0.0);
+}`;
+
+const DRAW_VS = `#version 300 es
+precision highp float;
+
+layout(location = 0) in vec4 a_state;
+layout(location = 1) in vec2 a_props;
+
+uniform vec2 u_size;
+uniform float u_dpr;
+uniform vec3 u_pointer;
+
+out float v_alpha;
+
+void main() {
+  float base = sin(clamp(a_state.z / a_state.w, 0.0, 1.0) * 3.14159265) * 0.8;
+  float boost = 0.0;
+  if (u_pointer.z > 0.5) {
+    float prox = max(1.0 - distance(a_state.xy, u_pointer.xy) / ${glFloat(POINTER_RADIUS)}, 0.0);
+    boost = prox * prox * 0.5;
+  }
+  v_alpha = min(base * 0.85 + boost * 0.3, 1.0) * ${glFloat(HEAD_ALPHA)};
+
+  vec2 clip = a_state.xy / u_size * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  gl_PointSize = max(a_props.y * u_dpr, 1.0);
+}`;
+
+const DRAW_FS = `#version 300 es
+precision mediump float;
+
+uniform vec3 u_color;
+in float v_alpha;
+out vec4 outColor;
+
+void main() {
+  float r = length(gl_PointCoord - 0.5) * 2.0;
+  float a = v_alpha * (1.0 - smoothstep(0.6, 1.0, r));
+  outColor = vec4(u_color * a, a); // premultiplied
+}`;
+
+const FADE_FS = `#version 300 es
+precision mediump float;
+uniform vec4 u_fade;
+out vec4 outColor;
+void main() {
+  outColor = u_fade;
+}`;
+
+const UPDATE_UNIFORMS = ['u_size', 'u_time', 'u_bias', 'u_speed', 'u_seed', 'u_pointer'] as const;
+const DRAW_UNIFORMS = ['u_size', 'u_dpr', 'u_pointer', 'u_color'] as const;
+
+// ── GPU state ──
+
+interface ParticleGL {
+  gl: WebGL2RenderingContext;
+  update: WebGLProgram;
+  draw: WebGLProgram;
+  fade: WebGLProgram;
+  updateU: Record<(typeof UPDATE_UNIFORMS)[number], WebGLUniformLocation | null>;
+  drawU: Record<(typeof DRAW_UNIFORMS)[number], WebGLUniformLocation | null>;
+  fadeU: WebGLUniformLocation | null;
+  vaos: [WebGLVertexArrayObject, WebGLVertexArrayObject]; // vaos[i] reads states[i]
+  states: [WebGLBuffer, WebGLBuffer];
+  current: 0 | 1;
+  trail: { texture: WebGLTexture; fbo: WebGLFramebuffer; width: number; height: number } | null;
+}
+
+let gpu: ParticleGL | null = null;
+
+function initialState(width: number, height: number): { state: Float32Array; props: Float32Array } {
+  const state = new Float32Array(MAX_PARTICLE_COUNT * 4);
+  const props = new Float32Array(MAX_PARTICLE_COUNT * 2);
+  for (let i = 0; i < MAX_PARTICLE_COUNT; i++) {
+    const maxLife = MIN_LIFE + random() * (MAX_LIFE - MIN_LIFE);
+    state.set([random() * width, random() * height, random() * maxLife, maxLife], i * 4);
+    props.set([0.6 + random() * 0.8, 0.8 + random() * 1.2], i * 2);
+  }
+  return { state, props };
+}
+
+function setup(gl: WebGL2RenderingContext, width: number, height: number): ParticleGL | null {
+  const update = compileProgram(gl, UPDATE_VS, UPDATE_FS, ['v_state']);
+  const draw = compileProgram(gl, DRAW_VS, DRAW_FS);
+  const fade = compileProgram(gl, FULLSCREEN_VS, FADE_FS);
+  if (!update || !draw || !fade) return null;
+
+  const { state, props } = initialState(width, height);
+  const propsBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, propsBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, props, gl.STATIC_DRAW);
+
+  const states = [gl.createBuffer(), gl.createBuffer()] as [WebGLBuffer, WebGLBuffer];
+  const vaos = [gl.createVertexArray(), gl.createVertexArray()] as [WebGLVertexArrayObject, WebGLVertexArrayObject];
+  for (let i = 0; i < 2; i++) {
+    gl.bindBuffer(gl.ARRAY_BUFFER, states[i]);
+    gl.bufferData(gl.ARRAY_BUFFER, state, gl.DYNAMIC_COPY);
+
+    gl.bindVertexArray(vaos[i]);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 4, gl.FLOAT, false, 0, 0);
+    gl.bindBuffer(gl.ARRAY_BUFFER, propsBuffer);
+    gl.enableVertexAttribArray(1);
+    gl.vertexAttribPointer(1, 2, gl.FLOAT, false, 0, 0);
+  }
+  gl.bindVertexArray(null);
+  gl.bindBuffer(gl.ARRAY_BUFFER, null);
+
+  return {
+    gl,
+    update,
+    draw,
+    fade,
+    updateU: uniforms(gl, update, UPDATE_UNIFORMS),
+    drawU: uniforms(gl, draw, DRAW_UNIFORMS),
+    fadeU: gl.getUniformLocation(fade, 'u_fade'),
+    vaos,
+    states,
+    current: 0,
+    trail: null,
+  };
+}
+
+// The trail texture follows the canvas size; a resize starts the trails afresh
+function ensureTrail(p: ParticleGL, width: number, height: number): NonNullable<ParticleGL['trail']> {
+  const { gl } = p;
+  if (p.trail && p.trail.width === width && p.trail.height === height) return p.trail;
+  if (p.trail) {
+    gl.deleteFramebuffer(p.trail.fbo);
+    gl.deleteTexture(p.trail.texture);
+  }
+
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texStorage2D(gl.TEXTURE_2D, 1, gl.RGBA8, width, height);
+  const fbo = gl.createFramebuffer();
+  gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
+  gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+  gl.clearColor(0, 0, 0, 0);
+  gl.clear(gl.COLOR_BUFFER_BIT);
+
+  p.trail = { texture, fbo, width, height };
+  return p.trail;
+}
+
+/** Step and draw the particles with WebGL; false means the caller should use Canvas 2D. */
+export function updateAndDrawParticlesGL(ctx: CanvasRenderingContext2D, state: VisualizationState): boolean {
+  const shared = getGL();
+  if (!shared) return false;
+  const { gl, canvas } = shared;
+  const { width, height, dpr, currentLevel, tideState, rateOfChange, time, pointer, themeBlend, barrierClosed, quality } = state;
+  // Buffers hold the most any level uses; lower levels step and draw the first few
+  const count = Math.min(quality.particleCount, MAX_PARTICLE_COUNT);
+
+  if (gpu?.gl !== gl) {
+    gpu = setup(gl, width, height);
+    if (!gpu) {
+      disableGL();
+      return false;
+    }
+  }
+  const p = gpu;
+
+  const w = Math.ceil(width * dpr);
+  const h = Math.ceil(height * dpr);
+  sizeGL(shared, w, h);
+  const trail = ensureTrail(p, w, h);
+
+  const { bias, speed } = streamFlow(tideState, rateOfChange, barrierClosed);
+  const pointerActive = pointer.active ? 1 : 0;
+  const next = p.current === 0 ? 1 : 0;
+
+  // ── Advect: states[current] → states[next] ──
+  gl.useProgram(p.update);
+  gl.uniform2f(p.updateU.u_size, width, height);
+  gl.uniform1f(p.updateU.u_time, time);
+  gl.uniform1f(p.updateU.u_bias, bias);
+  gl.uniform1f(p.updateU.u_speed, speed);
+  gl.uniform1f(p.updateU.u_seed, random() * 1000);
+  gl.uniform3f(p.updateU.u_pointer, pointer.x, pointer.y, pointerActive);
+
+  gl.bindVertexArray(p.vaos[p.current]);
+  gl.bindBufferBase(gl.TRANSFORM_FEEDBACK_BUFFER, 0, p.states[next]);
+  gl.enable(gl.RASTERIZER_DISCARD);
+  gl.beginTransformFeedback(gl.POINTS);
+  gl.drawArrays(gl.POINTS, 0, count);
+  gl.endTransformFeedback();
+  gl.disable(gl.RASTERIZER_DISCARD);
+  gl.bindBufferBase(gl.TRANSFORM_FEEDBACK_BUFFER, 0, null);
+  p.current = next;
+
+  // ── Fade the trails ──
+  gl.bindFramebuffer(gl.FRAMEBUFFER, trail.fbo);
+  gl.viewport(0, 0, w, h);
+  gl.enable(gl.BLEND);
+  gl.useProgram(p.fade);
+  gl.bindVertexArray(null);
+
+  gl.blendEquation(gl.FUNC_ADD);
+  gl.blendFunc(gl.ZERO, gl.SRC_ALPHA);
+  gl.uniform4f(p.fadeU, 0, 0, 0, TRAIL_DECAY);
+  gl.drawArrays(gl.TRIANGLES, 0, 3);
+
+  gl.blendEquation(gl.FUNC_REVERSE_SUBTRACT);
+  gl.blendFunc(gl.ONE, gl.ONE);
+  gl.uniform4f(p.fadeU, TRAIL_FLOOR, TRAIL_FLOOR, TRAIL_FLOOR, TRAIL_FLOOR);
+  gl.drawArrays(gl.TRIANGLES, 0, 3);
+
+  // ── Deposit the heads ──
+  const [hue, sat, light] = levelToParticleHSL(currentLevel, themeBlend);
+  const [r, g, b] = hslToRgb(hue / 360, sat / 100, light / 100);
+
+  gl.blendEquation(gl.FUNC_ADD);
+  gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  gl.useProgram(p.draw);
+  gl.uniform2f(p.drawU.u_size, width, height);
+  gl.uniform1f(p.drawU.u_dpr, dpr);
+  gl.uniform3f(p.drawU.u_pointer, pointer.x, pointer.y, pointerActive);
+  gl.uniform3f(p.drawU.u_color, r / 255, g / 255, b / 255);
+  gl.bindVertexArray(p.vaos[p.current]);
+  gl.drawArrays(gl.POINTS, 0, count);
+  gl.bindVertexArray(null);
+  gl.disable(gl.BLEND);
+
+  // ── Hand the trails to the 2D canvas ──
+  gl.bindFramebuffer(gl.READ_FRAMEBUFFER, trail.fbo);
+  gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, null);
+  gl.blitFramebuffer(0, 0, w, h, 0, 0, w, h, gl.COLOR_BUFFER_BIT, gl.NEAREST);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+  ctx.drawImage(canvas, 0, 0, w, h, 0, 0, width, height);
+  return true;
+}
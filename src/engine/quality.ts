@@ -0,0 +1,81 @@
+import type { QualitySettings, RenderHints } from '../types';
+
+// ── Quality governor ──
+// Watches how long each frame takes to render and steps the quality level down
+// when frames overrun the budget, back up when there's plenty of headroom.
+// Power saving caps how high it may go. Reduced motion doesn't: the render
+// loop stops animating instead, so its occasional still frames can be detailed.
+
+export const QUALITY_LEVELS: QualitySettings[] = [
+  { causticCell: 12, meshLines: 14, meshPoints: 50, particleCount: 400, frameInterval: 1000 / 20 },
+  { causticCell: 9, meshLines: 20, meshPoints: 70, particleCount: 800, frameInterval: 1000 / 30 },
+  { causticCell: 6, meshLines: 26, meshPoints: 100, particleCount: 1200, frameInterval: 1000 / 30 },
+  { causticCell: 4, meshLines: 32, meshPoints: 140, particleCount: 2000, frameInterval: 1000 / 30 },
+];
+
+export const DEFAULT_QUALITY_LEVEL = 2; // the original fixed settings
+export const MAX_PARTICLE_COUNT = Math.max(...QUALITY_LEVELS.map((q) => q.particleCount));
+
+const TOP_LEVEL = QUALITY_LEVELS.length - 1;
+const POWER_SAVING_LEVEL = 1;
+
+const BUDGET_FRACTION = 0.5; // of the frame interval; the rest is the browser's
+const HEADROOM_FRACTION = 0.4; // of the budget, sustained, before stepping up
+const SMOOTHING = 0.1; // EMA weight of the newest frame
+const DOWN_AFTER = 20; // consecutive over-budget frames
+const UP_AFTER = 150; // consecutive frames with headroom (~5 s at 30 fps)
+
+export const NO_HINTS: RenderHints = { reducedMotion: false, powerSaving: false, hidden: false };
+
+export interface QualityGovernor {
+  level(): number;
+  settings(): QualitySettings;
+  /** Feed in how long a frame took to render, in ms. */
+  record(frameMs: number): void;
+  setHints(hints: RenderHints): void;
+}
+
+function ceilingFor({ powerSaving }: RenderHints): number {
+  return powerSaving ? POWER_SAVING_LEVEL : TOP_LEVEL;
+}
+
+export function createQualityGovernor(hints: RenderHints = NO_HINTS): QualityGovernor {
+  let ceiling = ceilingFor(hints);
+  let level = Math.min(DEFAULT_QUALITY_LEVEL, ceiling);
+  let average = 0;
+  let over = 0;
+  let under = 0;
+
+  const step = (to: number) => {
+    level = to;
+    over = 0;
+    under = 0;
+    average = 0; // judge the new level on its own frames
+  };
+
+  return {
+    level: () => level,
+    settings: () => QUALITY_LEVELS[level],
+
+    record(frameMs) {
+      average = average === 0 ? frameMs : average + (frameMs - average) * SMOOTHING;
+      const budget = QUALITY_LEVELS[level].frameInterval * BUDGET_FRACTION;
+
+      if (average > budget) {
+        under = 0;
+        if (++over >= DOWN_AFTER && level > 0) step(level - 1);
+      } else if (average < budget * HEADROOM_FRACTION) {
+        over = 0;
+        if (++under >= UP_AFTER && level < ceiling) step(level + 1);
+      } else {
+        over = 0;
+        under = 0;
+      }
+    },
+
+    setHints(next) {
+      ceiling = ceilingFor(next);
+      if (level > ceiling) step(ceiling);
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import { createNoise3D, type NoiseFunction3D } from 'simplex-noise';
+
+// ── Randomness and time for the engine ──
+// The engine draws from random(), engineNoise3D() and clockNow() rather than
+// Math.random, createNoise3D and Date.now, so the render harness can seed and
+// freeze them and get the same pixels on every run. Left alone they behave
+// exactly as before.
+
+/** mulberry32 — small and fast; plenty for visuals. */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+let rng: () => number = Math.random;
+let clock: () => number = Date.now;
+
+// Rebuilds each noise field, in the order they were created
+const reseeders: (() => void)[] = [];
+
+export function random(): number {
+  return rng();
+}
+
+/** Epoch ms, from the injected clock if there is one. */
+export function clockNow(): number {
+  return clock();
+}
+
+/** A 3D simplex noise field that follows seedEngine(). */
+export function engineNoise3D(): NoiseFunction3D {
+  let noise = createNoise3D(random);
+  reseeders.push(() => {
+    noise = createNoise3D(random);
+  });
+  return (x, y, z) => noise(x, y, z);
+}
+
+/** Seed random() and rebuild every noise field from it; null goes back to Math.random. */
+export function seedEngine(seed: number | null): void {
+  rng = seed === null ? Math.random : seededRandom(seed);
+  for (const reseed of reseeders) reseed();
+}
+
+/** Replace the engine's clock; null goes back to Date.now. */
+export function setClock(fn: (() => number) | null): void {
+  clock = fn ?? Date.now;
+}
@@ -0,0 +1,90 @@
+import type { LayerConfig, SceneState } from '../types';
+import {
+  startRenderLoop,
+  type RenderLoop,
+  type RenderLoopOptions,
+  type RenderMessage,
+  type RenderWorkerMessage,
+} from './renderLoop';
+import { NO_HINTS } from './quality';
+
+// Picks where the render loop runs. With OffscreenCanvas the canvas is handed
+// to a worker and every RenderLoop call becomes a message; without it the loop
+// runs here on the main thread as it always did. If the worker fails before
+// its loop starts (the module won't load, or throws on start), a fresh canvas
+// takes the transferred one's place and the loop runs here instead.
+
+function canRenderOffscreen(canvas: HTMLCanvasElement): boolean {
+  return typeof Worker !== 'undefined' && typeof canvas.transferControlToOffscreen === 'function';
+}
+
+/** Start rendering into a fresh canvas; a canvas can only be transferred once. */
+export function createRenderLoop(
+  canvas: HTMLCanvasElement,
+  scene: SceneState,
+  layers: LayerConfig[],
+  options: RenderLoopOptions = {}
+): RenderLoop {
+  if (!canRenderOffscreen(canvas)) return startRenderLoop(canvas, scene, layers, options);
+
+  const { hints = NO_HINTS, onStats } = options;
+  const offscreen = canvas.transferControlToOffscreen();
+  const worker = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' });
+
+  // Kept in step with the worker so a fallback loop can pick up where it was
+  let current = { scene, layers, hints };
+  let started = false;
+  let fallback: { loop: RenderLoop; canvas: HTMLCanvasElement } | null = null;
+
+  worker.addEventListener('error', (e) => {
+    if (started || fallback) {
+      console.warn('Render worker failed:', e.message);
+      return;
+    }
+    console.warn('Render worker failed to start, rendering on the main thread:', e.message);
+    worker.terminate();
+    const fresh = canvas.cloneNode() as HTMLCanvasElement;
+    canvas.replaceWith(fresh);
+    fallback = { loop: startRenderLoop(fresh, current.scene, current.layers, { hints: current.hints, onStats }), canvas: fresh };
+  });
+  worker.addEventListener('message', (e: MessageEvent<RenderWorkerMessage>) => {
+    if (e.data.type === 'started') started = true;
+    else if (e.data.type === 'stats') onStats?.(e.data.stats);
+  });
+
+  const post = (msg: RenderMessage, transfer: Transferable[] = []) => worker.postMessage(msg, transfer);
+  const renderer = new URLSearchParams(location.search).get('renderer');
+  post({ type: 'start', canvas: offscreen, scene, layers, hints, stats: onStats !== undefined, renderer }, [offscreen]);
+
+  return {
+    update: (patch) => {
+      current = { ...current, scene: { ...current.scene, ...patch } };
+      if (fallback) fallback.loop.update(patch);
+      else post({ type: 'update', patch });
+    },
+    setLayers: (next) => {
+      current = { ...current, layers: next };
+      if (fallback) fallback.loop.setLayers(next);
+      else post({ type: 'layers', layers: next });
+    },
+    setHints: (next) => {
+      current = { ...current, hints: next };
+      if (fallback) fallback.loop.setHints(next);
+      else post({ type: 'hints', hints: next });
+    },
+    invalidateCurve: () => {
+      if (fallback) fallback.loop.invalidateCurve();
+      else post({ type: 'invalidateCurve' });
+    },
+    stop: () => {
+      if (fallback) {
+        fallback.loop.stop();
+        // Hand the caller back the canvas it gave us, so its own cleanup still applies
+        fallback.canvas.replaceWith(canvas);
+        return;
+      }
+      post({ type: 'stop' });
+      worker.terminate();
+    },
+  };
+}
@@ -0,0 +1,213 @@
+import type { FrameStats, LayerConfig, LayerId, RenderHints, SceneState, VisualizationState } from '../types';
+import { renderFrame, renderInitialBackground, resizeLayers, getRenderBackend } from './renderer';
+import { invalidateTideCurveCache } from './tideCurve';
+import { createQualityGovernor, NO_HINTS } from './quality';
+import { clockNow } from './random';
+
+// ── Render loop ──
+// Owns the animation clock and draws the layer stack at the rate and quality
+// the governor allows. Under prefers-reduced-motion the clock stands still and
+// a frame is only drawn when the scene changes (data, scrub, theme, size). It
+// runs inside renderWorker.ts against a transferred OffscreenCanvas where the
+// browser allows, otherwise on the main thread; TideCanvas can't tell which.
+
+export interface RenderLoop {
+  update(patch: Partial<SceneState>): void;
+  setLayers(layers: LayerConfig[]): void;
+  setHints(hints: RenderHints): void;
+  invalidateCurve(): void;
+  stop(): void;
+}
+
+export interface RenderLoopOptions {
+  hints?: RenderHints;
+  onStats?: (stats: FrameStats) => void; // for the debug HUD; timing costs a little
+}
+
+// Messages from the page to renderWorker.ts, one per RenderLoop method
+export type RenderMessage =
+  | {
+      type: 'start';
+      canvas: OffscreenCanvas;
+      scene: SceneState;
+      layers: LayerConfig[];
+      hints: RenderHints;
+      stats: boolean;
+      renderer: string | null;
+    }
+  | { type: 'update'; patch: Partial<SceneState> }
+  | { type: 'layers'; layers: LayerConfig[] }
+  | { type: 'hints'; hints: RenderHints }
+  | { type: 'invalidateCurve' }
+  | { type: 'stop' };
+
+// ...and back; 'started' once the loop is running
+export type RenderWorkerMessage = { type: 'started' } | { type: 'stats'; stats: FrameStats };
+
+const STATS_INTERVAL_MS = 500;
+
+// Workers in older Safari have no requestAnimationFrame
+const requestFrame: (cb: (timestamp: number) => void) => number =
+  typeof requestAnimationFrame === 'function'
+    ? (cb) => requestAnimationFrame(cb)
+    : (cb) => setTimeout(() => cb(performance.now()), 1000 / 60) as unknown as number;
+const cancelFrame: (id: number) => void =
+  typeof cancelAnimationFrame === 'function' ? (id) => cancelAnimationFrame(id) : (id) => clearTimeout(id);
+
+export function startRenderLoop(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  initialScene: SceneState,
+  initialLayers: LayerConfig[],
+  { hints = NO_HINTS, onStats }: RenderLoopOptions = {}
+): RenderLoop {
+  // The engine only uses the drawing API the two context types share
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | null;
+  const governor = createQualityGovernor(hints);
+
+  let scene = initialScene;
+  let layers = initialLayers;
+  let animTime = 0;
+  let lastFrame = 0;
+  let animId = 0;
+  let stillId = 0;
+  let paused = hints.hidden;
+  let still = hints.reducedMotion;
+
+  // Running totals for the next FrameStats
+  let statsStart = 0;
+  let statsFrames = 0;
+  let statsTotal = 0;
+  let layerTotals: Partial<Record<LayerId, number>> = {};
+
+  const reportStats = (timestamp: number, frameMs: number, timings: Partial<Record<LayerId, number>>) => {
+    if (!onStats) return;
+    if (statsStart === 0) statsStart = timestamp;
+    statsFrames++;
+    statsTotal += frameMs;
+    for (const [id, ms] of Object.entries(timings) as [LayerId, number][]) {
+      layerTotals[id] = (layerTotals[id] ?? 0) + ms;
+    }
+
+    const span = timestamp - statsStart;
+    if (span < STATS_INTERVAL_MS) return;
+    const layersAvg: Partial<Record<LayerId, number>> = {};
+    for (const [id, ms] of Object.entries(layerTotals) as [LayerId, number][]) layersAvg[id] = ms / statsFrames;
+    onStats({
+      backend: getRenderBackend(),
+      worker: typeof document === 'undefined',
+      level: governor.level(),
+      fps: (statsFrames * 1000) / span,
+      frameMs: statsTotal / statsFrames,
+      layers: layersAvg,
+    });
+    statsStart = timestamp;
+    statsFrames = 0;
+    statsTotal = 0;
+    layerTotals = {};
+  };
+
+  const resize = () => {
+    const { width, height, dpr, currentLevel, themeBlend } = scene;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    renderInitialBackground(ctx, width, height, currentLevel, themeBlend);
+    resizeLayers(width, height);
+  };
+
+  const draw = (timestamp: number) => {
+    if (!ctx) return;
+    const quality = governor.settings();
+    const { scrubOffset, ...rest } = scene;
+    const state: VisualizationState = {
+      ...rest,
+      time: animTime,
+      timeOffset: scrubOffset + (scene.pinnedTime !== null ? scene.pinnedTime - clockNow() : 0),
+      quality,
+    };
+
+    const timings: Partial<Record<LayerId, number>> | undefined = onStats ? {} : undefined;
+    const began = performance.now();
+    ctx.setTransform(scene.dpr, 0, 0, scene.dpr, 0, 0);
+    renderFrame(ctx, state, layers, timings);
+    const frameMs = performance.now() - began;
+
+    governor.record(frameMs);
+    if (timings) reportStats(timestamp, frameMs, timings);
+  };
+
+  const animate = (timestamp: number) => {
+    animId = requestFrame(animate);
+    if (!ctx) return;
+    if (lastFrame === 0) lastFrame = timestamp;
+
+    const elapsed = timestamp - lastFrame;
+    if (elapsed < governor.settings().frameInterval) return;
+
+    lastFrame = timestamp;
+    animTime += elapsed / 1000;
+    draw(timestamp);
+  };
+
+  // Reduced motion: one frame at the next opportunity, however many changes ask for it
+  const redrawStill = () => {
+    if (!still || paused || stillId !== 0) return;
+    stillId = requestFrame((timestamp) => {
+      stillId = 0;
+      draw(timestamp);
+    });
+  };
+
+  const start = () => {
+    if (still) {
+      redrawStill();
+    } else {
+      // Pick the clock up where it stopped rather than jumping ahead
+      lastFrame = 0;
+      statsStart = 0;
+      animId = requestFrame(animate);
+    }
+  };
+
+  const halt = () => {
+    cancelFrame(animId);
+    cancelFrame(stillId);
+    stillId = 0;
+  };
+
+  resize();
+  if (!paused) start();
+
+  return {
+    update(patch) {
+      const resized =
+        (patch.width !== undefined && patch.width !== scene.width) ||
+        (patch.height !== undefined && patch.height !== scene.height) ||
+        (patch.dpr !== undefined && patch.dpr !== scene.dpr);
+      scene = { ...scene, ...patch };
+      if (resized) resize();
+      // A passing pointer would only nudge the particles along
+      if (Object.keys(patch).some((key) => key !== 'pointer')) redrawStill();
+    },
+    setLayers(next) {
+      layers = next;
+      redrawStill();
+    },
+    setHints(next) {
+      governor.setHints(next);
+      if (next.hidden === paused && next.reducedMotion === still) return;
+      if (!paused) halt();
+      paused = next.hidden;
+      still = next.reducedMotion;
+      if (!paused) start();
+    },
+    invalidateCurve() {
+      invalidateTideCurveCache();
+      redrawStill();
+    },
+    stop() {
+      halt();
+    },
+  };
+}
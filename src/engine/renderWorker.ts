@@ -0,0 +1,40 @@
+import { startRenderLoop, type RenderLoop, type RenderMessage, type RenderWorkerMessage } from './renderLoop';
+import { setRequestedBackend } from './renderer';
+
+// Worker entry: runs the render loop against the canvas TideCanvas handed over
+// with transferControlToOffscreen(). The tide-curve cache and caustic buffer
+// are module state, so they live here with it rather than on the main thread.
+
+let loop: RenderLoop | null = null;
+
+self.addEventListener('message', (e: MessageEvent<RenderMessage>) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case 'start':
+      setRequestedBackend(msg.renderer);
+      loop = startRenderLoop(msg.canvas, msg.scene, msg.layers, {
+        hints: msg.hints,
+        onStats: msg.stats
+          ? (stats) => self.postMessage({ type: 'stats', stats } satisfies RenderWorkerMessage)
+          : undefined,
+      });
+      self.postMessage({ type: 'started' } satisfies RenderWorkerMessage);
+      break;
+    case 'update':
+      loop?.update(msg.patch);
+      break;
+    case 'layers':
+      loop?.setLayers(msg.layers);
+      break;
+    case 'hints':
+      loop?.setHints(msg.hints);
+      break;
+    case 'invalidateCurve':
+      loop?.invalidateCurve();
+      break;
+    case 'stop':
+      loop?.stop();
+      loop = null;
+      break;
+  }
+});
@@ -1,21 +1,140 @@
-import type { VisualizationState } from '../types';
+import type { LayerConfig, LayerId, RenderBackend, VisualPreset, VisualizationState } from '../types';
 import { levelToBackground } from './color';
-import { drawCaustics } from './caustics';
-import { drawUndulatingMesh } from './undulatingMesh';
-import { drawTideCurve } from './tideCurve';
+import { drawCaustics, resetCausticsDrift } from './caustics';
+import { drawCausticsGL } from './causticsGL';
+import { drawUndulatingMesh, resetMeshDrift } from './undulatingMesh';
+import { drawTideCurve, invalidateTideCurveCache } from './tideCurve';
+import { drawCentralGlow } from './centralGlow';
+import { updateAndDrawParticles, resizeParticles, resetParticles } from './particles';
+import { updateAndDrawParticlesGL } from './particlesGL';
+import { webgl2Available } from './webgl';
 
+// ── Backend ──
+// Caustics and particles run on WebGL2 where there's a hardware GPU, and on
+// Canvas 2D otherwise. `?renderer=canvas2d` forces the 2D path for comparison.
+
+let backend: RenderBackend | null = null;
+let requested: string | null = typeof location !== 'undefined' ? new URLSearchParams(location.search).get('renderer') : null;
+
+export function getRenderBackend(): RenderBackend {
+  if (!backend) backend = requested !== 'canvas2d' && webgl2Available() ? 'webgl2' : 'canvas2d';
+  return backend;
+}
+
+/** The render worker can't see the page URL, so the page passes its `?renderer=` along. */
+export function setRequestedBackend(value: string | null): void {
+  requested = value;
+  backend = null;
+}
+
+// A GL layer that can't draw (context lost, shader failure) drops the whole
+// session back to 2D, and this frame is drawn the 2D way instead
+function withFallback(
+  gl: (ctx: CanvasRenderingContext2D, state: VisualizationState) => boolean,
+  canvas2d: (ctx: CanvasRenderingContext2D, state: VisualizationState) => void
+): RenderLayer['draw'] {
+  return (ctx, state) => {
+    if (getRenderBackend() === 'webgl2' && gl(ctx, state)) return;
+    backend = 'canvas2d';
+    canvas2d(ctx, state);
+  };
+}
+
+// ── Layer registry ──
+// Each frame is a stack of layers drawn bottom first. Which are drawn, in what
+// order and how strongly comes from the user's LayerConfig list, so the
+// renderer itself holds no opinion beyond the default stack.
+
+export interface RenderLayer {
+  id: LayerId;
+  label: string;
+  draw: (ctx: CanvasRenderingContext2D, state: VisualizationState) => void;
+  resize?: (width: number, height: number) => void;
+  reset?: () => void; // forget accumulated state (drift, particles, caches)
+}
+
+const layers = new Map<LayerId, RenderLayer>();
+
+export function registerLayer(layer: RenderLayer): void {
+  layers.set(layer.id, layer);
+}
+
+export function getLayer(id: LayerId): RenderLayer | undefined {
+  return layers.get(id);
+}
+
+registerLayer({
+  id: 'background',
+  label: 'Background',
+  draw: (ctx, { width, height, currentLevel, themeBlend }) => {
+    ctx.fillStyle = levelToBackground(currentLevel, themeBlend);
+    ctx.fillRect(0, 0, width, height);
+  },
+});
+registerLayer({
+  id: 'caustics',
+  label: 'Caustics',
+  draw: withFallback(drawCausticsGL, drawCaustics),
+  reset: resetCausticsDrift,
+});
+registerLayer({ id: 'mesh', label: 'Undulating mesh', draw: drawUndulatingMesh, reset: resetMeshDrift });
+registerLayer({ id: 'glow', label: 'Central glow', draw: drawCentralGlow });
+registerLayer({
+  id: 'particles',
+  label: 'Flow particles',
+  draw: withFallback(updateAndDrawParticlesGL, updateAndDrawParticles),
+  resize: resizeParticles,
+  reset: resetParticles,
+});
+registerLayer({ id: 'curve', label: 'Tide curve', draw: drawTideCurve, reset: invalidateTideCurveCache });
+
+// The original look: caustics under the mesh, curve along the bottom
+export const DEFAULT_LAYERS: LayerConfig[] = [
+  { id: 'background', enabled: true, opacity: 1 },
+  { id: 'caustics', enabled: true, opacity: 1 },
+  { id: 'mesh', enabled: true, opacity: 1 },
+  { id: 'glow', enabled: false, opacity: 1 },
+  { id: 'particles', enabled: false, opacity: 1 },
+  { id: 'curve', enabled: true, opacity: 1 },
+];
+
+function stack(enabled: LayerId[]): LayerConfig[] {
+  return DEFAULT_LAYERS.map(({ id }) => ({ id, enabled: enabled.includes(id), opacity: 1 }));
+}
+
+export const VISUAL_PRESETS: Record<VisualPreset, { label: string; layers: LayerConfig[] }> = {
+  caustics: { label: 'Caustics', layers: DEFAULT_LAYERS },
+  particles: { label: 'Flow particles', layers: stack(['background', 'glow', 'particles', 'curve']) },
+  minimal: { label: 'Minimal curve', layers: stack(['background', 'curve']) },
+};
+
+/** Draw the stack; pass `timings` to have each layer's draw time (ms) written into it. */
 export function renderFrame(
   ctx: CanvasRenderingContext2D,
-  state: VisualizationState
+  state: VisualizationState,
+  config: LayerConfig[] = DEFAULT_LAYERS,
+  timings?: Partial<Record<LayerId, number>>
 ): void {
-  // Layer 1: Caustics (fills entire background)
-  drawCaustics(ctx, state);
+  for (const { id, enabled, opacity } of config) {
+    const layer = layers.get(id);
+    if (!enabled || !layer || opacity <= 0) continue;
+    const start = timings ? performance.now() : 0;
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    layer.draw(ctx, state);
+    ctx.restore();
+    if (timings) timings[id] = performance.now() - start;
+  }
+}
 
-  // Layer 2: Subtle undulating mesh lines over caustics
-  drawUndulatingMesh(ctx, state);
+/** Let layers that keep per-size state (particle positions) follow a resize. */
+export function resizeLayers(width: number, height: number): void {
+  for (const layer of layers.values()) layer.resize?.(width, height);
+}
 
-  // Layer 3: Tide curve along bottom
-  drawTideCurve(ctx, state);
+/** Start every layer from scratch, e.g. before a reproducible render. */
+export function resetLayers(): void {
+  for (const layer of layers.values()) layer.reset?.();
 }
 
 export function renderInitialBackground(
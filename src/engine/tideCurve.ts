@@ -1,93 +1,23 @@
-import type { VisualizationState, TidalEvent } from '../types';
+import type { VisualizationState } from '../types';
 import { mapRange } from '../utils/math';
+import { padPredictions, interpolatePredictions, levelAtTime } from '../utils/predictions';
+import type { LevelPoint } from '../utils/predictions';
 import { levelToGlowColor } from './color';
+import { clockNow } from './random';
 
 export const CURVE_HEIGHT_FRACTION = 0.15;
 const LABEL_PAD = 40;
-const HALF_CYCLE = 6.2 * 3600 * 1000;
 const CACHE_TTL = 30_000;
 
 // Scrolling window: hours of past/future visible from centre
 const PAST_HOURS = 12;
 const FUTURE_HOURS = 12;
 
-function padPredictions(
-  predictions: TidalEvent[],
-  start: number,
-  end: number
-): TidalEvent[] {
-  if (predictions.length < 2) return predictions;
-
-  const padded = [...predictions];
-
-  // Pad start
-  while (padded.length > 0 && padded[0].time.getTime() > start) {
-    const first = padded[0];
-    const oppositeType = first.type === 'high' ? 'low' : 'high';
-    const nearest = padded.find((e) => e.type === oppositeType);
-    const level = nearest ? nearest.level : first.level;
-    padded.unshift({
-      type: oppositeType,
-      time: new Date(first.time.getTime() - HALF_CYCLE),
-      level,
-    });
-  }
-
-  // Pad end
-  while (padded.length > 0 && padded[padded.length - 1].time.getTime() < end) {
-    const last = padded[padded.length - 1];
-    const oppositeType = last.type === 'high' ? 'low' : 'high';
-    const nearest = [...padded].reverse().find((e) => e.type === oppositeType);
-    const level = nearest ? nearest.level : last.level;
-    padded.push({
-      type: oppositeType,
-      time: new Date(last.time.getTime() + HALF_CYCLE),
-      level,
-    });
-  }
-
-  return padded;
-}
-
-function interpolatePredictions(
-  predictions: TidalEvent[],
-  start: number,
-  end: number
-): { time: number; level: number }[] {
-  const padded = padPredictions(predictions, start, end);
-  if (padded.length < 2) return [];
-
-  const points: { time: number; level: number }[] = [];
-  const step = 3 * 60 * 1000;
-
-  for (let i = 0; i < padded.length - 1; i++) {
-    const a = padded[i];
-    const b = padded[i + 1];
-    const tA = a.time.getTime();
-    const tB = b.time.getTime();
-
-    for (let t = tA; t < tB; t += step) {
-      if (t < start || t > end) continue;
-      const frac = (t - tA) / (tB - tA);
-      const cos = (1 - Math.cos(frac * Math.PI)) / 2;
-      const level = a.level + (b.level - a.level) * cos;
-      points.push({ time: t, level });
-    }
-  }
-
-  const last = padded[padded.length - 1];
-  if (last.time.getTime() >= start && last.time.getTime() <= end) {
-    points.push({ time: last.time.getTime(), level: last.level });
-  }
-
-  return points;
-}
-
 // ── Cache ──
 let cachedCanvas: OffscreenCanvas | null = null;
 let cacheKey = '';
 let cacheTime = 0;
-let cachedPoints: { time: number; level: number }[] = [];
+let cachedPoints: LevelPoint[] = [];
 let cachedMinLevel = 0;
 let cachedMaxLevel = 1;
 let cachedWindowStart = 0;
@@ -95,8 +25,8 @@ let cachedWindowEnd = 0;
 let cachedCurveTop = 0;
 let cachedCurveBottom = 0;
 
-function buildCacheKey(w: number, h: number, dpr: number, blend: number, predCount: number, nowMinute: number, stationId: string, offsetBucket: number): string {
-  return `${w}|${h}|${dpr}|${Math.round(blend * 20)}|${predCount}|${nowMinute}|${stationId}|${offsetBucket}`;
+function buildCacheKey(w: number, h: number, dpr: number, blend: number, predCount: number, readingsKey: string, nowMinute: number, stationId: string, offsetBucket: number, windowsKey: string): string {
+  return `${w}|${h}|${dpr}|${Math.round(blend * 20)}|${predCount}|${readingsKey}|${nowMinute}|${stationId}|${offsetBucket}|${windowsKey}`;
 }
 
 /** Flush the cached tide-curve layer (call when station changes). */
@@ -108,7 +38,7 @@ export function invalidateTideCurveCache(): void {
 }
 
 function renderStaticLayer(state: VisualizationState): void {
-  const { width, height, dpr, predictions, currentLevel, themeBlend, timeOffset } = state;
+  const { width, height, dpr, predictions, harmonics, readings, currentLevel, themeBlend, timeOffset, navigationWindows } = state;
 
   const curveTop = height * (1 - CURVE_HEIGHT_FRACTION);
   const curveBottom = height - 40;
@@ -116,21 +46,28 @@ function renderStaticLayer(state: VisualizationState): void {
   const tw = Math.round(255 * (1 - themeBlend));
   const textColor = `rgba(${tw},${tw},${tw},`;
 
-  const now = Date.now();
+  const now = clockNow();
   // Shift the visible window by timeOffset: positive offset = looking into the future
   const viewCentre = now + timeOffset;
   const windowStart = viewCentre - PAST_HOURS * 3600 * 1000;
   const windowEnd = viewCentre + FUTURE_HOURS * 3600 * 1000;
 
-  const allPoints = interpolatePredictions(predictions, windowStart, windowEnd);
+  const allPoints = interpolatePredictions(predictions, windowStart, windowEnd, harmonics);
   if (allPoints.length < 2) {
     cachedCanvas = null;
     return;
   }
 
+  // Observed readings only exist up to now, so they cover the past half at most
+  const observed: LevelPoint[] = [];
+  for (const r of readings) {
+    const t = r.time.getTime();
+    if (t >= windowStart && t <= Math.min(now, windowEnd)) observed.push({ time: t, level: r.level });
+  }
+
   let minLevel = Infinity;
   let maxLevel = -Infinity;
-  for (const p of allPoints) {
+  for (const p of [...allPoints, ...observed]) {
     minLevel = Math.min(minLevel, p.level);
     maxLevel = Math.max(maxLevel, p.level);
   }
@@ -160,8 +97,21 @@ function renderStaticLayer(state: VisualizationState): void {
 
   const nowX = timeToX(now);
 
+  // ── Navigation windows: bands behind the curve ──
+  for (const w of navigationWindows) {
+    const start = w.start.getTime();
+    const end = w.end.getTime();
+    if (end < windowStart || start > windowEnd) continue;
+    const x0 = timeToX(start);
+    const x1 = timeToX(end);
+    ctx.fillStyle = bright(0.12 - themeBlend * 0.04);
+    ctx.fillRect(x0, curveTop - 12, x1 - x0, curveBottom - curveTop + 12);
+    ctx.fillStyle = bright(0.6);
+    ctx.fillRect(x0, curveBottom, x1 - x0, 2);
+  }
+
   // ── Build path helper ──
-  const buildPath = (points: { time: number; level: number }[]) => {
+  const buildPath = (points: LevelPoint[]) => {
     ctx.beginPath();
     let s = false;
     for (const p of points) {
@@ -244,8 +194,55 @@ function renderStaticLayer(state: VisualizationState): void {
     }
   }
 
+  // ── Observed: residual shading + solid trace ──
+  if (observed.length > 1) {
+    const predictedAt = observed.map((p) => levelAtTime(allPoints, p.time) ?? p.level);
+
+    // Band between observed and predicted, shaded warm where the river runs
+    // above prediction (surge) and cool where it runs below
+    const residualBand = () => {
+      ctx.beginPath();
+      ctx.moveTo(timeToX(observed[0].time), levelToY(observed[0].level));
+      for (let i = 1; i < observed.length; i++) {
+        ctx.lineTo(timeToX(observed[i].time), levelToY(observed[i].level));
+      }
+      for (let i = observed.length - 1; i >= 0; i--) {
+        ctx.lineTo(timeToX(observed[i].time), levelToY(predictedAt[i]));
+      }
+      ctx.closePath();
+    };
+
+    // Clip to the region above (or below) the predicted line so each sign gets its own tint
+    const clipToSide = (side: 'above' | 'below') => {
+      const edgeY = side === 'above' ? curveTop - 20 : curveBottom + 20;
+      ctx.beginPath();
+      ctx.moveTo(timeToX(observed[0].time), edgeY);
+      for (let i = 0; i < observed.length; i++) {
+        ctx.lineTo(timeToX(observed[i].time), levelToY(predictedAt[i]));
+      }
+      ctx.lineTo(timeToX(observed[observed.length - 1].time), edgeY);
+      ctx.closePath();
+      ctx.clip();
+    };
+
+    const residualAlpha = 0.35 - themeBlend * 0.1;
+    for (const side of ['above', 'below'] as const) {
+      ctx.save();
+      clipToSide(side);
+      residualBand();
+      ctx.fillStyle = levelToGlowColor(side === 'above' ? 3.5 : -2, residualAlpha, themeBlend);
+      ctx.fill();
+      ctx.restore();
+    }
+
+    buildPath(observed);
+    ctx.strokeStyle = textColor + '0.75)';
+    ctx.lineWidth = 1.25;
+    ctx.stroke();
+  }
+
   // ── High/low markers ──
-  const paddedPreds = padPredictions(predictions, windowStart, windowEnd);
+  const paddedPreds = padPredictions(predictions, windowStart, windowEnd, harmonics);
   ctx.font = '9px monospace';
   ctx.textAlign = 'center';
   for (const e of paddedPreds) {
@@ -299,17 +296,20 @@ export function drawTideCurve(
   ctx: CanvasRenderingContext2D,
   state: VisualizationState
 ): void {
-  const { width, height, predictions, currentLevel, themeBlend } = state;
+  const { width, height, predictions, harmonics, readings, currentLevel, themeBlend } = state;
 
-  if (predictions.length < 2) return;
+  if (predictions.length < 2 && !harmonics) return;
 
   const { dpr, stationId, timeOffset } = state;
-  const now = Date.now();
+  const now = clockNow();
   // Cache key includes the current minute so the curve re-renders as time scrolls
   const nowMinute = Math.floor(now / 60_000);
   // Bucket offset to ~30s precision so scrubbing doesn't thrash the cache too hard
   const offsetBucket = Math.round(timeOffset / 30_000);
-  const key = buildCacheKey(width, height, dpr, themeBlend, predictions.length, nowMinute, stationId, offsetBucket);
+  const lastReading = readings[readings.length - 1];
+  const readingsKey = `${readings.length}:${lastReading ? lastReading.time.getTime() : 0}`;
+  const windowsKey = state.navigationWindows.map((w) => `${w.start.getTime()}-${w.end.getTime()}`).join(',');
+  const key = buildCacheKey(width, height, dpr, themeBlend, predictions.length, readingsKey, nowMinute, stationId, offsetBucket, windowsKey);
   if (!cachedCanvas || key !== cacheKey || now - cacheTime > CACHE_TTL) {
     cacheKey = key;
     renderStaticLayer(state);
@@ -343,14 +343,7 @@ export function drawTideCurve(
     ctx.lineWidth = 1;
     ctx.stroke();
 
-    let curveLevel = currentLevel;
-    for (let i = 0; i < cachedPoints.length - 1; i++) {
-      if (cachedPoints[i].time <= now && cachedPoints[i + 1].time >= now) {
-        const frac = (now - cachedPoints[i].time) / (cachedPoints[i + 1].time - cachedPoints[i].time);
-        curveLevel = cachedPoints[i].level + (cachedPoints[i + 1].level - cachedPoints[i].level) * frac;
-        break;
-      }
-    }
+    const curveLevel = levelAtTime(cachedPoints, now) ?? currentLevel;
 
     const currentY = levelToY(curveLevel);
     const dotGrad = ctx.createRadialGradient(nowX, currentY, 0, nowX, currentY, 18);
@@ -367,5 +360,28 @@ export function drawTideCurve(
     ctx.fill();
   }
 
+  // ── Pinned moment marker (hollow, so it doesn't read as "now") ──
+  const { pinnedTime } = state;
+  if (pinnedTime !== null) {
+    const pinX = timeToX(pinnedTime);
+    const pinLevel = levelAtTime(cachedPoints, pinnedTime);
+    if (pinX >= -20 && pinX <= width + 20 && pinLevel !== null) {
+      ctx.beginPath();
+      ctx.moveTo(pinX, cachedCurveTop);
+      ctx.lineTo(pinX, cachedCurveBottom);
+      ctx.setLineDash([2, 3]);
+      ctx.strokeStyle = textColor + '0.35)';
+      ctx.lineWidth = 1;
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      ctx.beginPath();
+      ctx.arc(pinX, levelToY(pinLevel), 5, 0, Math.PI * 2);
+      ctx.strokeStyle = bright(1.0);
+      ctx.lineWidth = 1.5;
+      ctx.stroke();
+    }
+  }
+
   ctx.restore();
 }
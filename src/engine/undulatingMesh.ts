@@ -1,13 +1,12 @@
-import { createNoise3D } from 'simplex-noise';
 import type { VisualizationState } from '../types';
 import { mapRange } from '../utils/math';
 import { levelToParticleColor } from './color';
+import { engineNoise3D } from './random';
 
-const noise3D = createNoise3D();
+const noise3D = engineNoise3D();
 
 // ── Grid config (subtle overlay) ──
-const LINE_COUNT = 26;
-const POINTS_PER_LINE = 100;
+// Line and point counts come from state.quality
 const VERTICAL_PADDING_TOP = 0.10;
 const VERTICAL_PADDING_BOTTOM = 0.20; // keep clear of tide curve
 
@@ -31,7 +30,8 @@ export function drawUndulatingMesh(
   ctx: CanvasRenderingContext2D,
   state: VisualizationState
 ): void {
-  const { width, height, currentLevel, tideState, rateOfChange, time, pointer, themeBlend } = state;
+  const { width, height, currentLevel, tideState, rateOfChange, time, pointer, themeBlend, dataConfidence, rangeFactor, quality } = state;
+  const { meshLines, meshPoints } = quality;
 
   // ── Tide-level intensity: higher water = more energy ──
   const levelIntensity = mapRange(currentLevel, -1.5, 3.5, 0.5, 1.5);
@@ -39,9 +39,13 @@ export function drawUndulatingMesh(
   // ── Drift: falling/low_slack = right, rising/high_slack = left ──
   const tideBias = tideState === 'falling' || tideState === 'low_slack' ? 1 : -1;
   const speedMult = mapRange(Math.abs(rateOfChange), 0, 2, 0.15, 1.0);
-  driftOffset += tideBias * speedMult * MAX_DRIFT_SPEED * levelIntensity;
+  // Flatten towards still water when the data is suspect
+  const calm = 0.4 + 0.6 * dataConfidence;
+  driftOffset += tideBias * speedMult * MAX_DRIFT_SPEED * levelIntensity * calm;
 
-  const ampScale = mapRange(Math.abs(rateOfChange), 0, 2, 0.5, 1.3) * levelIntensity;
+  // Springs heave more than neaps, whatever the moment's rate
+  const rangeScale = mapRange(rangeFactor, 0, 1, 0.8, 1.2);
+  const ampScale = mapRange(Math.abs(rateOfChange), 0, 2, 0.5, 1.3) * levelIntensity * rangeScale * calm;
 
   const yTop = height * VERTICAL_PADDING_TOP;
   const yBot = height * (1 - VERTICAL_PADDING_BOTTOM);
@@ -49,8 +53,8 @@ export function drawUndulatingMesh(
 
   ctx.lineCap = 'round';
 
-  for (let i = 0; i < LINE_COUNT; i++) {
-    const lineT = i / (LINE_COUNT - 1);
+  for (let i = 0; i < meshLines; i++) {
+    const lineT = i / (meshLines - 1);
     const baseY = yTop + lineT * bandHeight;
 
     // Subtle: centre lines slightly more visible, edges very faint
@@ -62,8 +66,8 @@ export function drawUndulatingMesh(
 
     ctx.beginPath();
 
-    for (let j = 0; j <= POINTS_PER_LINE; j++) {
-      const xT = j / POINTS_PER_LINE;
+    for (let j = 0; j <= meshPoints; j++) {
+      const xT = j / meshPoints;
       const x = xT * width;
       const worldX = x - driftOffset;
 
@@ -0,0 +1,214 @@
+// ── WebGL2 plumbing shared by the GL layers ──
+// One OffscreenCanvas and context serves every GL layer. Each renders into it
+// and drawImage()s the result onto the 2D canvas, so layer order, opacity and
+// everything else in the 2D stack keep working unchanged.
+
+// Software rasterisers (CI runners, blocklisted GPUs) are slower than our
+// Canvas 2D path, so they count as no WebGL at all
+const SOFTWARE_RENDERER = /swiftshader|llvmpipe|softpipe|software|microsoft basic render/i;
+
+interface SharedGL {
+  canvas: OffscreenCanvas;
+  gl: WebGL2RenderingContext;
+}
+
+let shared: SharedGL | null = null;
+let failed = false;
+
+function isSoftwareRenderer(gl: WebGL2RenderingContext): boolean {
+  const info = gl.getExtension('WEBGL_debug_renderer_info');
+  const renderer = gl.getParameter(info ? info.UNMASKED_RENDERER_WEBGL : gl.RENDERER);
+  return typeof renderer === 'string' && SOFTWARE_RENDERER.test(renderer);
+}
+
+function createShared(): SharedGL | null {
+  if (typeof OffscreenCanvas === 'undefined') return null;
+  try {
+    const canvas = new OffscreenCanvas(1, 1);
+    const gl = canvas.getContext('webgl2', {
+      alpha: true,
+      premultipliedAlpha: true,
+      antialias: false,
+      depth: false,
+      stencil: false,
+      failIfMajorPerformanceCaveat: true,
+    });
+    if (!gl) return null;
+    if (isSoftwareRenderer(gl)) {
+      gl.getExtension('WEBGL_lose_context')?.loseContext();
+      return null;
+    }
+    canvas.addEventListener('webglcontextlost', () => disableGL());
+    return { canvas, gl };
+  } catch {
+    // OffscreenCanvas without WebGL support — Canvas 2D it is
+    return null;
+  }
+}
+
+/** The shared context, or null once WebGL is known not to work here. */
+export function getGL(): SharedGL | null {
+  if (failed) return null;
+  if (!shared) {
+    shared = createShared();
+    if (!shared) failed = true;
+  }
+  if (shared && shared.gl.isContextLost()) disableGL();
+  return shared;
+}
+
+/** Give up on WebGL for the rest of the session; the GL layers fall back to 2D. */
+export function disableGL(): void {
+  failed = true;
+  shared = null;
+}
+
+export function webgl2Available(): boolean {
+  return getGL() !== null;
+}
+
+/** Match the shared canvas to the device-pixel size of the 2D canvas. */
+export function sizeGL({ canvas }: SharedGL, width: number, height: number): void {
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+}
+
+// ── Programs ──
+
+function compileShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader | null {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    console.warn('WebGL shader failed to compile:', gl.getShaderInfoLog(shader));
+    gl.deleteShader(shader);
+    return null;
+  }
+  return shader;
+}
+
+/** Compile and link, optionally capturing varyings with transform feedback. */
+export function compileProgram(
+  gl: WebGL2RenderingContext,
+  vertexSource: string,
+  fragmentSource: string,
+  feedbackVaryings?: string[]
+): WebGLProgram | null {
+  const vs = compileShader(gl, gl.VERTEX_SHADER, vertexSource);
+  const fs = compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+  const program = gl.createProgram();
+  if (!vs || !fs || !program) return null;
+
+  gl.attachShader(program, vs);
+  gl.attachShader(program, fs);
+  if (feedbackVaryings) gl.transformFeedbackVaryings(program, feedbackVaryings, gl.INTERLEAVED_ATTRIBS);
+  gl.linkProgram(program);
+  gl.deleteShader(vs);
+  gl.deleteShader(fs);
+
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.warn('WebGL program failed to link:', gl.getProgramInfoLog(program));
+    gl.deleteProgram(program);
+    return null;
+  }
+  return program;
+}
+
+/** Look up uniform locations by name. */
+export function uniforms<K extends string>(
+  gl: WebGL2RenderingContext,
+  program: WebGLProgram,
+  names: readonly K[]
+): Record<K, WebGLUniformLocation | null> {
+  const out = {} as Record<K, WebGLUniformLocation | null>;
+  for (const name of names) out[name] = gl.getUniformLocation(program, name);
+  return out;
+}
+
+/** A JS number as a GLSL float literal (GLSL won't promote `50` to `50.0`). */
+export function glFloat(n: number): string {
+  return Number.isInteger(n) ? n.toFixed(1) : String(n);
+}
+
+// ── Shared GLSL ──
+
+// Full-screen triangle from gl_VertexID; draw with drawArrays(TRIANGLES, 0, 3)
+export const FULLSCREEN_VS = `#version 300 es
+void main() {
+  vec2 p = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+  gl_Position = vec4(p * 2.0 - 1.0, 0.0, 1.0);
+}`;
+
+// h, s, l in 0..1, as color.ts's hslToRgb
+export const HSL_GLSL = `
+vec3 hsl2rgb(vec3 c) {
+  vec3 rgb = clamp(abs(mod(c.x * 6.0 + vec3(0.0, 4.0, 2.0), 6.0) - 3.0) - 1.0, 0.0, 1.0);
+  return c.z + c.y * (rgb - 0.5) * (1.0 - abs(2.0 * c.z - 1.0));
+}`;
+
+// 3D simplex noise, -1..1 like simplex-noise's createNoise3D.
+// Ian McEwan, Ashima Arts (MIT licence) — github.com/ashima/webgl-noise
+export const SIMPLEX_NOISE_GLSL = `
+vec3 mod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+vec4 mod289(vec4 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+vec4 permute(vec4 x) { return mod289(((x * 34.0) + 1.0) * x); }
+vec4 taylorInvSqrt(vec4 r) { return 1.79284291400159 - 0.85373472095314 * r; }
+
+float snoise(vec3 v) {
+  const vec2 C = vec2(1.0 / 6.0, 1.0 / 3.0);
+  const vec4 D = vec4(0.0, 0.5, 1.0, 2.0);
+
+  vec3 i = floor(v + dot(v, C.yyy));
+  vec3 x0 = v - i + dot(i, C.xxx);
+
+  vec3 g = step(x0.yzx, x0.xyz);
+  vec3 l = 1.0 - g;
+  vec3 i1 = min(g.xyz, l.zxy);
+  vec3 i2 = max(g.xyz, l.zxy);
+
+  vec3 x1 = x0 - i1 + C.xxx;
+  vec3 x2 = x0 - i2 + C.yyy;
+  vec3 x3 = x0 - D.yyy;
+
+  i = mod289(i);
+  vec4 p = permute(permute(permute(
+      i.z + vec4(0.0, i1.z, i2.z, 1.0))
+    + i.y + vec4(0.0, i1.y, i2.y, 1.0))
+    + i.x + vec4(0.0, i1.x, i2.x, 1.0));
+
+  float n_ = 0.142857142857;
+  vec3 ns = n_ * D.wyz - D.xzx;
+
+  vec4 j = p - 49.0 * floor(p * ns.z * ns.z);
+  vec4 x_ = floor(j * ns.z);
+  vec4 y_ = floor(j - 7.0 * x_);
+
+  vec4 x = x_ * ns.x + ns.yyyy;
+  vec4 y = y_ * ns.x + ns.yyyy;
+  vec4 h = 1.0 - abs(x) - abs(y);
+
+  vec4 b0 = vec4(x.xy, y.xy);
+  vec4 b1 = vec4(x.zw, y.zw);
+  vec4 s0 = floor(b0) * 2.0 + 1.0;
+  vec4 s1 = floor(b1) * 2.0 + 1.0;
+  vec4 sh = -step(h, vec4(0.0));
+
+  vec4 a0 = b0.xzyw + s0.xzyw * sh.xxyy;
+  vec4 a1 = b1.xzyw + s1.xzyw * sh.zzww;
+
+  vec3 p0 = vec3(a0.xy, h.x);
+  vec3 p1 = vec3(a0.zw, h.y);
+  vec3 p2 = vec3(a1.xy, h.z);
+  vec3 p3 = vec3(a1.zw, h.w);
+
+  vec4 norm = taylorInvSqrt(vec4(dot(p0, p0), dot(p1, p1), dot(p2, p2), dot(p3, p3)));
+  p0 *= norm.x;
+  p1 *= norm.y;
+  p2 *= norm.z;
+  p3 *= norm.w;
+
+  vec4 m = max(0.6 - vec4(dot(x0, x0), dot(x1, x1), dot(x2, x2), dot(x3, x3)), 0.0);
+  m = m * m;
+  return 42.0 * dot(m * m, vec4(dot(p0, x0), dot(p1, x1), dot(p2, x2), dot(p3, x3)));
+}`;
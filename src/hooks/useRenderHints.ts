@@ -0,0 +1,70 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { RenderHints } from '../types';
+
+// Neither is in every browser, nor in TypeScript's DOM types
+interface BatteryManager extends EventTarget {
+  charging: boolean;
+  level: number; // 0..1
+}
+
+interface NavigatorExtras {
+  getBattery?: () => Promise<BatteryManager>;
+  connection?: { saveData?: boolean };
+}
+
+const LOW_BATTERY = 0.2;
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/** What the render loop should know about the user's settings and the page. */
+export function useRenderHints(): RenderHints {
+  const [reducedMotion, setReducedMotion] = useState(() => window.matchMedia(REDUCED_MOTION_QUERY).matches);
+  const [hidden, setHidden] = useState(() => document.visibilityState === 'hidden');
+  const [lowBattery, setLowBattery] = useState(false);
+  const [saveData] = useState(() => (navigator as NavigatorExtras).connection?.saveData === true);
+
+  useEffect(() => {
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    const handleChange = () => setReducedMotion(query.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  useEffect(() => {
+    const handleVisibility = () => setHidden(document.visibilityState === 'hidden');
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+
+  // Browsers don't expose battery saver itself; low and unplugged is the next best thing
+  useEffect(() => {
+    const { getBattery } = navigator as NavigatorExtras;
+    if (!getBattery) return;
+
+    let battery: BatteryManager | null = null;
+    let cancelled = false;
+    const handleChange = () => {
+      if (battery) setLowBattery(!battery.charging && battery.level <= LOW_BATTERY);
+    };
+
+    getBattery.call(navigator).then((b) => {
+      if (cancelled) return;
+      battery = b;
+      handleChange();
+      b.addEventListener('chargingchange', handleChange);
+      b.addEventListener('levelchange', handleChange);
+    }).catch(() => {
+      // blocked by permissions policy — assume mains power
+    });
+
+    return () => {
+      cancelled = true;
+      battery?.removeEventListener('chargingchange', handleChange);
+      battery?.removeEventListener('levelchange', handleChange);
+    };
+  }, []);
+
+  return useMemo(
+    () => ({ reducedMotion, powerSaving: lowBattery || saveData, hidden }),
+    [reducedMotion, lowBattery, saveData, hidden]
+  );
+}
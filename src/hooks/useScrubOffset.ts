@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import type { ScrubStore } from '../scrub';
+
+/**
+ * Current scrub offset, quantised to `resolutionMs` so components only
+ * re-render when the readout would actually change, not on every frame.
+ */
+export function useScrubOffset(store: ScrubStore, resolutionMs: number = 60_000): number {
+  const steps = useSyncExternalStore(store.subscribe, () => Math.round(store.get() / resolutionMs));
+  return steps * resolutionMs;
+}
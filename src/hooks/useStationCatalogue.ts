@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+import type { Station } from '../stations';
+import { buildCatalogue } from '../stations';
+import type { TideProvider } from '../providers';
+import { tideProvider } from '../providers';
+import { loadCachedGauges, saveGauges } from '../storage/stationCatalogue';
+
+/**
+ * All selectable stations: the cached gauge catalogue straight away (or just
+ * the curated list on first run), refreshed from the provider when the cache is old.
+ */
+export function useStationCatalogue(provider: TideProvider = tideProvider): Station[] {
+  const [cached] = useState(loadCachedGauges);
+  const [stations, setStations] = useState<Station[]>(() => buildCatalogue(cached.gauges));
+
+  useEffect(() => {
+    if (cached.fresh) return;
+    let cancelled = false;
+    provider.fetchTideGauges()
+      .then((gauges) => {
+        if (cancelled || gauges.length === 0) return;
+        saveGauges(gauges);
+        setStations(buildCatalogue(gauges));
+      })
+      .catch(() => {}); // offline: keep whatever we had
+    return () => { cancelled = true; };
+  }, [cached, provider]);
+
+  return stations;
+}
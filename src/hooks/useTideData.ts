@@ -1,12 +1,29 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { TideData, TideReading, TideState, TidalEvent } from '../types';
+import type { BarrierOverride, BarrierStatus, Coordinates, HarmonicConstants, PredictionsIssue, TideData, TideReading, TideState, TidalEvent } from '../types';
 import type { Station } from '../stations';
-import { fetchTodayReadings, fetchStationName, fetchTidalPredictions } from '../api';
+import { STATIONS, STATION_HARMONICS } from '../stations';
+import type { ReadingsBatch, TideProvider } from '../providers';
+import { tideProvider } from '../providers';
+import { declaredBarrierStatus, manualBarrierSource, scheduleBarrierSource } from '../providers/barrier';
+import { isUpstreamOfBarrier, detectBarrierClosure, resolveBarrierStatus, SEAWARD_STATION_ID } from '../utils/barrier';
+import { analyseSurge } from '../utils/surge';
+import { padPredictions } from '../utils/predictions';
+import { assessQuality } from '../utils/quality';
+import { springNeapState } from '../utils/moon';
+import type { Gap } from '../storage/readingHistory';
+import { loadHistory, saveReadings, mergeReadings, findGaps, loadTriedGaps, markGapsTried } from '../storage/readingHistory';
+import { loadAlertRules, loadAlertState, saveAlertState } from '../storage/alertSettings';
+import { evaluateAlerts } from '../utils/alerts';
+import { deliverAlert } from '../notifications';
 
 const POLL_INTERVAL = 15 * 60 * 1000; // 15 minutes
 const SLACK_THRESHOLD = 0.05; // m/hour — below this is "slack"
+// Span of events kept in `predictions`: Admiralty's 3 days, topped up from the harmonic model
+const EVENTS_PAST_MS = 24 * 3600 * 1000;
+const EVENTS_FUTURE_MS = 7 * 24 * 3600 * 1000;
+const HISTORY_WINDOW_MS = 30 * 24 * 3600 * 1000; // stored history handed to the curve and analysis
 
-function deriveTideState(readings: TideReading[], predictions: TidalEvent[]): {
+function deriveTideState(readings: TideReading[], predictions: TidalEvent[], barrierClosed = false): {
   state: TideState;
   rateOfChange: number;
   currentLevel: number;
@@ -26,6 +43,12 @@ function deriveTideState(readings: TideReading[], predictions: TidalEvent[]): {
   const dLevel = last.level - first.level;
   const rate = dt > 0 ? dLevel / dt : 0;
 
+  // Behind a closed barrier the water isn't following the tide at all; the
+  // predictions would call it slack, so go by the level's own drift
+  if (barrierClosed) {
+    return { state: rate >= 0 ? 'rising' : 'falling', rateOfChange: rate, currentLevel: latest.level };
+  }
+
   // Use predictions to determine state more accurately near turning points
   if (predictions.length > 0) {
     const now = Date.now();
@@ -77,16 +100,40 @@ function deriveTideState(readings: TideReading[], predictions: TidalEvent[]): {
   return { state, rateOfChange: rate, currentLevel: latest.level };
 }
 
-export function useTideData(station: Station): { data: TideData | null; loading: boolean; error: string | null } {
+// Check the user's alert rules against freshly polled data and notify on any that fire.
+// Only the open station's poll checks them, so only its rules can fire (the panel says so);
+// the comparison and map feeds poll other stations with alerts left off.
+function checkAlerts(stationId: string, data: TideData): void {
+  const rules = loadAlertRules();
+  if (rules.length === 0) return;
+  const { firings, state } = evaluateAlerts(rules, data, stationId, data.stationName, loadAlertState());
+  saveAlertState(state);
+  for (const firing of firings) {
+    deliverAlert(firing).catch(() => {});
+  }
+}
+
+export function useTideData(
+  station: Station,
+  provider: TideProvider = tideProvider,
+  barrierOverride: BarrierOverride = null,
+  alerts = false
+): { data: TideData | null; loading: boolean; error: string | null } {
   const [data, setData] = useState<TideData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [stationName, setStationName] = useState(station.name);
+  const [location, setLocation] = useState<Coordinates | null>(null);
   const [predictions, setPredictions] = useState<TidalEvent[]>([]);
+  const [predictionsIssue, setPredictionsIssue] = useState<PredictionsIssue | null>(null);
+  const [harmonics, setHarmonics] = useState<HarmonicConstants | null>(STATION_HARMONICS[station.id] ?? null);
+  const [harmonicsFitted, setHarmonicsFitted] = useState(false);
   const [predictionsReady, setPredictionsReady] = useState(false);
 
   // Track station ID so we can discard stale responses
   const stationRef = useRef(station.id);
+  // Whether this station has rendered anything yet (from the store or the network)
+  const hasDataRef = useRef(false);
 
   // Reset state when station changes
   useEffect(() => {
@@ -95,32 +142,133 @@ export function useTideData(station: Station): { data: TideData | null; loading:
     setLoading(true);
     setError(null);
     setStationName(station.name);
+    setLocation(null);
     setPredictions([]);
+    setPredictionsIssue(null);
+    setHarmonics(STATION_HARMONICS[station.id] ?? null);
+    setHarmonicsFitted(false);
     setPredictionsReady(false);
+    hasDataRef.current = false;
   }, [station.id, station.name]);
 
   const load = useCallback(async () => {
+    // Above the Thames Barrier: what the sources declare, and the gauge below it for detection
+    const upstream = isUpstreamOfBarrier(station);
+    let declared: BarrierStatus | null = null;
+    let seaward: TideReading[] = [];
+
+    const publish = (readings: TideReading[], cachedAt: Date | null): TideData => {
+      const now = Date.now();
+      const events = padPredictions(predictions, now - EVENTS_PAST_MS, now + EVENTS_FUTURE_MS, harmonics);
+      const quality = assessQuality(readings, events, harmonics, predictionsIssue, now);
+      // Derive everything from the readings with spikes taken out
+      const spikes = new Set(quality.spikeTimes);
+      const clean = spikes.size > 0 ? readings.filter((r) => !spikes.has(r.time.getTime())) : readings;
+      const barrier = upstream
+        ? resolveBarrierStatus(
+            declared,
+            detectBarrierClosure(clean, harmonics, seaward, STATION_HARMONICS[SEAWARD_STATION_ID] ?? null, now)
+          )
+        : null;
+      const { state, rateOfChange, currentLevel } = deriveTideState(clean, events, barrier?.closed);
+
+      const next: TideData = {
+        readings: clean,
+        predictions: events,
+        currentLevel,
+        tideState: state,
+        lastUpdated: quality.latestReadingAt ?? new Date(),
+        stationName,
+        location,
+        rateOfChange,
+        surge: analyseSurge(clean, events, harmonics),
+        harmonics,
+        harmonicsPlaceholder: harmonics !== null && !harmonicsFitted,
+        cachedAt,
+        quality,
+        springNeap: springNeapState(events, harmonics, now),
+        barrier,
+      };
+      setData(next);
+      hasDataRef.current = true;
+      return next;
+    };
+
     try {
-      const readings = await fetchTodayReadings(station.eaStation);
+      if (upstream) {
+        declared = await declaredBarrierStatus([manualBarrierSource(barrierOverride), scheduleBarrierSource], Date.now());
+      }
+
+      const stored = await loadHistory(station.id, Date.now() - HISTORY_WINDOW_MS);
+      if (stationRef.current !== station.id) return;
+
+      const storedAt = stored.length > 0 ? stored[stored.length - 1].time : null;
+
+      // Render local history straight away on first load; the network fills in after.
+      // Not flagged as cached: nothing has failed yet, so it would only flash up
+      if (stored.length > 0 && !hasDataRef.current) {
+        publish(stored, null);
+        setLoading(false);
+      }
+
+      // Catch up from the newest stored reading (there's always a trailing gap after a suspend);
+      // with nothing stored, take the provider's default latest batch
+      const gaps = findGaps(stored);
+      const trailing = gaps.find((g) => g.trailing);
+      const since = stored.length > 0 && trailing ? new Date(trailing.start) : undefined;
+
+      let batch: ReadingsBatch = { readings: [], cachedAt: null };
+      if (stored.length === 0 || since) {
+        try {
+          batch = await provider.fetchReadings(station, since);
+        } catch (e) {
+          // Offline with local history: keep showing it rather than failing
+          if (stored.length === 0) throw e;
+          batch = { readings: [], cachedAt: storedAt };
+        }
+      }
+
+      // Gaps inside the history are asked for once each, over just their own range;
+      // what EA still hasn't got by then is an outage and stays a gap
+      const tried = await loadTriedGaps(station.id);
+      const inner = gaps.filter((g) => !g.trailing && !tried.has(g.end));
+      const filled: Gap[] = [];
+      let backfill: TideReading[] = [];
+      for (const gap of inner) {
+        try {
+          const { readings } = await provider.fetchReadings(station, new Date(gap.start), new Date(gap.end));
+          backfill = backfill.concat(readings);
+          filled.push(gap);
+        } catch {
+          // try again next poll
+        }
+      }
       // Discard if station changed while fetching
       if (stationRef.current !== station.id) return;
 
+      const fresh = mergeReadings(backfill, batch.readings);
+      await saveReadings(station.id, fresh);
+      await markGapsTried(station.id, filled);
+      const readings = mergeReadings(stored, fresh);
+
+      // Nothing declared: look for a closure in the levels either side of the barrier
+      const seawardStation = STATIONS.find((s) => s.id === SEAWARD_STATION_ID);
+      if (upstream && !declared && seawardStation) {
+        try {
+          seaward = (await provider.fetchReadings(seawardStation)).readings;
+        } catch {
+          // no comparison this time — assume open
+        }
+        if (stationRef.current !== station.id) return;
+      }
+
       if (readings.length === 0) {
         setError('No readings available');
         return;
       }
 
-      const { state, rateOfChange, currentLevel } = deriveTideState(readings, predictions);
-
-      setData({
-        readings,
-        predictions,
-        currentLevel,
-        tideState: state,
-        lastUpdated: new Date(),
-        stationName,
-        rateOfChange,
-      });
+      const next = publish(readings, batch.cachedAt);
+      if (alerts) checkAlerts(station.id, next);
       setError(null);
     } catch (e) {
       if (stationRef.current !== station.id) return;
@@ -130,29 +278,40 @@ export function useTideData(station: Station): { data: TideData | null; loading:
         setLoading(false);
       }
     }
-  }, [station.id, station.eaStation, stationName, predictions]);
+  }, [station, provider, barrierOverride, alerts, stationName, location, predictions, predictionsIssue, harmonics, harmonicsFitted]);
 
-  // Fetch predictions when station changes
+  // Fetch predictions (and build-time fitted constants, which beat the bundled ones) when station changes
   useEffect(() => {
     setPredictionsReady(false);
-    fetchTidalPredictions(station.admiraltyStation, station.cdToMaod)
-      .then((p) => {
-        if (stationRef.current === station.id) setPredictions(p);
+    Promise.all([
+      provider.fetchPredictions(station),
+      provider.fetchHarmonics(station),
+    ])
+      .then(([p, fitted]) => {
+        if (stationRef.current !== station.id) return;
+        setPredictions(p.events);
+        setPredictionsIssue(p.issue);
+        if (fitted) {
+          setHarmonics(fitted);
+          setHarmonicsFitted(true);
+        }
       })
       .catch(() => {})
       .finally(() => {
         if (stationRef.current === station.id) setPredictionsReady(true);
       });
-  }, [station.id, station.admiraltyStation, station.cdToMaod]);
+  }, [station, provider]);
 
-  // Fetch EA station name
+  // Fetch station name and position
   useEffect(() => {
-    fetchStationName(station.eaStation)
-      .then((name) => {
-        if (stationRef.current === station.id) setStationName(name);
+    provider.fetchStationInfo(station)
+      .then((info) => {
+        if (stationRef.current !== station.id) return;
+        setStationName(info.name);
+        if (info.lat !== null && info.long !== null) setLocation({ lat: info.lat, long: info.long });
       })
       .catch(() => {});
-  }, [station.id, station.eaStation]);
+  }, [station, provider]);
 
   // Only start the polling loop once predictions have been fetched
   useEffect(() => {
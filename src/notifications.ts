@@ -0,0 +1,46 @@
+import type { AlertFiring } from './utils/alerts';
+
+// Alert delivery through the Notifications API. In the background (and on
+// mobile browsers that refuse page-level `new Notification`) the service
+// worker shows it instead, so it lands even when the tab isn't visible.
+
+export function notificationsSupported(): boolean {
+  return typeof Notification !== 'undefined';
+}
+
+export async function requestAlertPermission(): Promise<boolean> {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+export async function deliverAlert(firing: AlertFiring): Promise<void> {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+
+  const options: NotificationOptions = {
+    body: firing.body,
+    tag: firing.tag,
+    icon: `${import.meta.env.BASE_URL}icon-192.png`,
+  };
+
+  const registration = 'serviceWorker' in navigator
+    ? await navigator.serviceWorker.getRegistration()
+    : undefined;
+
+  if (registration && (document.hidden || !canConstructNotification())) {
+    await registration.showNotification(firing.title, options);
+    return;
+  }
+
+  try {
+    new Notification(firing.title, options);
+  } catch {
+    await registration?.showNotification(firing.title, options);
+  }
+}
+
+// Chrome on Android throws on `new Notification` — only the worker may show them
+function canConstructNotification(): boolean {
+  return !/Android/i.test(navigator.userAgent);
+}
@@ -0,0 +1,113 @@
+import type { HarmonicConstants } from '../types';
+import type { Station } from '../stations';
+import { STATIONS } from '../stations';
+import type { PredictionsBatch, PredictionsSource } from './types';
+
+// ── Admiralty Tidal API (predicted highs/lows) ──
+
+const ADMIRALTY_BASE = import.meta.env.DEV
+  ? '/api/admiralty/uktidalapi/api/V1'
+  : 'https://admiraltyapi.azure-api.net/uktidalapi/api/V1';
+
+// Build-time files older than this are from a broken deploy; better to fall
+// back to harmonic predictions than show last week's tides
+const PREDICTIONS_MAX_AGE_MS = 4 * 24 * 3600 * 1000;
+
+const NO_PREDICTIONS: PredictionsBatch = { events: [], issue: null };
+
+interface PredictionsFile {
+  stationId: string;
+  admiraltyStation: string;
+  generatedAt: string;
+  start: string | null;
+  end: string | null;
+  events: { type: 'high' | 'low'; time: string; level: number }[];
+}
+
+export async function fetchTidalPredictions(station: Station): Promise<PredictionsBatch> {
+  // EA gauges without an Admiralty counterpart rely on harmonics alone
+  if (station.admiraltyStation === null || station.cdToMaod === null) return NO_PREDICTIONS;
+  const { admiraltyStation, cdToMaod } = station;
+
+  // In dev mode, use the Vite proxy to hit the live API
+  const apiKey = import.meta.env.VITE_ADMIRALTY_API_KEY;
+  if (import.meta.env.DEV && apiKey) {
+    try {
+      const res = await fetch(
+        `${ADMIRALTY_BASE}/Stations/${admiraltyStation}/TidalEvents?duration=3`,
+        { headers: { 'Ocp-Apim-Subscription-Key': apiKey } }
+      );
+      if (res.ok) {
+        const events: {
+          EventType: string;
+          DateTime: string;
+          Height: number;
+        }[] = await res.json();
+
+        return {
+          events: events.map((e) => ({
+            type: e.EventType === 'HighWater' ? 'high' as const : 'low' as const,
+            time: new Date(e.DateTime + 'Z'),
+            level: e.Height + cdToMaod,
+          })),
+          issue: null,
+        };
+      }
+    } catch {
+      // fall through to static file
+    }
+  }
+
+  // In production (or if live API fails), use build-time predictions
+  try {
+    const base = import.meta.env.BASE_URL;
+    const res = await fetch(`${base}data/predictions/${station.id}.json`);
+    if (!res.ok) return NO_PREDICTIONS;
+
+    const file: PredictionsFile = await res.json();
+    if (file.stationId !== station.id || file.admiraltyStation !== admiraltyStation) {
+      return { events: [], issue: 'mismatch' };
+    }
+
+    const now = Date.now();
+    const stale =
+      !file.end || new Date(file.end).getTime() < now ||
+      now - new Date(file.generatedAt).getTime() > PREDICTIONS_MAX_AGE_MS;
+    if (stale) return { events: [], issue: 'stale' };
+
+    return {
+      events: file.events.map((p) => ({
+        type: p.type,
+        time: new Date(p.time),
+        level: p.level,
+      })),
+      issue: null,
+    };
+  } catch {
+    return NO_PREDICTIONS;
+  }
+}
+
+// ── Fitted harmonic constants (scripts/fit-harmonics.mjs) ──
+
+export async function fetchHarmonics(stationId: string): Promise<HarmonicConstants | null> {
+  try {
+    const base = import.meta.env.BASE_URL;
+    const res = await fetch(`${base}data/harmonics/${stationId}.json`);
+    if (!res.ok) return null;
+
+    const fitted: HarmonicConstants & { stationId: string } = await res.json();
+    if (fitted.stationId !== stationId || !fitted.constituents?.M2) return null;
+
+    return { datum: fitted.datum, constituents: fitted.constituents };
+  } catch {
+    return null;
+  }
+}
+
+export const admiraltyProvider: PredictionsSource = {
+  fetchPredictions: fetchTidalPredictions,
+  // scripts/fit-harmonics.mjs only fits the curated stations; don't ask for files that can't exist
+  fetchHarmonics: async (station: Station) =>
+    STATIONS.some((s) => s.id === station.id) ? fetchHarmonics(station.id) : null,
+};
@@ -0,0 +1,53 @@
+import type { BarrierOverride, BarrierStatus } from '../types';
+import schedule from '../data/barrierSchedule.json';
+
+// Where the app hears that the Thames Barrier is shut. Each source either
+// declares a status or has no opinion (null); the first to declare one wins,
+// and with none the levels themselves are checked (utils/barrier.ts).
+
+export interface BarrierStatusSource {
+  id: string;
+  fetchStatus(now: number): Promise<BarrierStatus | null>;
+}
+
+// src/data/barrierSchedule.json lists announced closures (the monthly test
+// closures, flood-defence closures once called):
+//   { "closures": [{ "start": ISO time, "end": ISO time, "reason"?: string }] }
+interface ScheduledClosure {
+  start: string;
+  end: string;
+  reason?: string;
+}
+
+const closures: ScheduledClosure[] = schedule.closures;
+
+export const scheduleBarrierSource: BarrierStatusSource = {
+  id: 'schedule',
+  fetchStatus: async (now) => {
+    const closure = closures.find((c) => Date.parse(c.start) <= now && now < Date.parse(c.end));
+    if (!closure) return null;
+    return { closed: true, source: 'schedule', until: new Date(closure.end), reason: closure.reason ?? null };
+  },
+};
+
+/** The user's own say-so, either way. */
+export function manualBarrierSource(override: BarrierOverride): BarrierStatusSource {
+  return {
+    id: 'manual',
+    fetchStatus: async () => (override
+      ? { closed: override === 'closed', source: 'manual', until: null, reason: null }
+      : null),
+  };
+}
+
+export async function declaredBarrierStatus(sources: BarrierStatusSource[], now: number): Promise<BarrierStatus | null> {
+  for (const source of sources) {
+    try {
+      const status = await source.fetchStatus(now);
+      if (status) return status;
+    } catch {
+      // an unreachable source has no opinion
+    }
+  }
+  return null;
+}
@@ -0,0 +1,83 @@
+import type { EAReading, EAStation, StationInfo, TideGauge } from '../types';
+import type { Station } from '../stations';
+import type { ReadingsBatch, ReadingsSource, StationInfoSource } from './types';
+
+// ── EA Flood Monitoring (observed readings) ──
+
+const EA_BASE = 'https://environment.data.gov.uk/flood-monitoring';
+const CACHED_AT_HEADER = 'sw-cached-at'; // set by public/sw.js on offline fallbacks
+
+export async function fetchStationInfo(eaStation: string): Promise<StationInfo> {
+  const res = await fetch(`${EA_BASE}/id/stations/${eaStation}`);
+  if (!res.ok) throw new Error(`Station fetch failed: ${res.status}`);
+  const data: { items?: Partial<EAStation> } = await res.json();
+  return {
+    name: data.items?.label ?? eaStation,
+    lat: data.items?.lat ?? null,
+    long: data.items?.long ?? null,
+  };
+}
+
+/** Every EA tide gauge, for the station catalogue. */
+export async function fetchTideGauges(): Promise<TideGauge[]> {
+  const res = await fetch(`${EA_BASE}/id/stations?type=TideGauge&_limit=500`);
+  if (!res.ok) throw new Error(`Station list fetch failed: ${res.status}`);
+  const data: { items?: Partial<EAStation>[] } = await res.json();
+
+  // A few stations list several positions; those can't be placed on a map, so skip them
+  return (data.items ?? []).flatMap((s) =>
+    s.stationReference && s.label && typeof s.lat === 'number' && typeof s.long === 'number'
+      ? [{ eaStation: s.stationReference, name: s.label, lat: s.lat, long: s.long }]
+      : []
+  );
+}
+
+export async function fetchTodayReadings(eaStation: string): Promise<ReadingsBatch> {
+  return fetchReadings(`${EA_BASE}/id/stations/${eaStation}/readings?_sorted&_limit=200&parameter=level`);
+}
+
+// `since` returns every reading after the given instant. The limit covers the
+// 7-day backfill window with room to spare.
+export async function fetchReadingsSince(eaStation: string, since: Date): Promise<ReadingsBatch> {
+  return fetchReadings(
+    `${EA_BASE}/id/stations/${eaStation}/readings?_sorted&_limit=2000&parameter=level&since=${since.toISOString()}`
+  );
+}
+
+// EA bounds ranges by whole days, so the ends of the first and last day are trimmed here
+export async function fetchReadingsBetween(eaStation: string, since: Date, until: Date): Promise<ReadingsBatch> {
+  const day = (d: Date) => d.toISOString().slice(0, 10);
+  const batch = await fetchReadings(
+    `${EA_BASE}/id/stations/${eaStation}/readings?_sorted&_limit=2000&parameter=level&startdate=${day(since)}&enddate=${day(until)}`
+  );
+  const readings = batch.readings.filter((r) => r.time > since && r.time < until);
+  return { ...batch, readings };
+}
+
+async function fetchReadings(url: string): Promise<ReadingsBatch> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Readings fetch failed: ${res.status}`);
+  const data = await res.json();
+
+  const items: EAReading[] = data.items ?? [];
+
+  const readings = items
+    .filter((r) => typeof r.value === 'number' && !isNaN(r.value))
+    .map((r) => ({
+      time: new Date(r.dateTime),
+      level: r.value,
+    }))
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  const cachedAt = res.headers.get(CACHED_AT_HEADER);
+  return { readings, cachedAt: cachedAt ? new Date(cachedAt) : null };
+}
+
+export const eaProvider: StationInfoSource & ReadingsSource = {
+  fetchStationInfo: (station: Station) => fetchStationInfo(station.eaStation),
+  fetchReadings: (station: Station, since?: Date, until?: Date) => {
+    if (!since) return fetchTodayReadings(station.eaStation);
+    return until ? fetchReadingsBetween(station.eaStation, since, until) : fetchReadingsSince(station.eaStation, since);
+  },
+  fetchTideGauges,
+};
@@ -0,0 +1,35 @@
+import type { TideProvider } from './types';
+import { eaProvider } from './ea';
+import { admiraltyProvider } from './admiralty';
+import { syntheticProvider } from './synthetic';
+
+export type { PredictionsBatch, ReadingsBatch, TideProvider } from './types';
+
+// Live data: EA gauges for readings and metadata, Admiralty for predictions
+export const liveProvider: TideProvider = {
+  id: 'live',
+  ...eaProvider,
+  ...admiraltyProvider,
+};
+
+const PROVIDERS: Record<string, TideProvider> = {
+  live: liveProvider,
+  synthetic: syntheticProvider,
+};
+
+/**
+ * Pick a provider from `?provider=synthetic` in the URL, else the
+ * VITE_TIDE_PROVIDER env flag, else live data.
+ */
+function selectProvider(): TideProvider {
+  let requested: string | null = null;
+  try {
+    requested = new URLSearchParams(window.location.search).get('provider');
+  } catch {
+    // no window (e.g. tooling) — fall through to env
+  }
+  requested ??= import.meta.env.VITE_TIDE_PROVIDER ?? null;
+  return (requested && PROVIDERS[requested]) || liveProvider;
+}
+
+export const tideProvider = selectProvider();
@@ -0,0 +1,84 @@
+import type { TideReading } from '../types';
+import type { Station } from '../stations';
+import { STATION_HARMONICS, DEFAULT_STATION } from '../stations';
+import { harmonicLevel, harmonicEvents } from '../utils/harmonics';
+import type { TideProvider } from './types';
+
+// Offline provider: readings and predictions generated from the station's
+// harmonic model, plus a slow fake surge and gauge jitter. Everything is a pure
+// function of (station, time), so two sessions at the same moment see
+// identical data — handy for demos and for working on the visual engine.
+
+const READING_INTERVAL = 15 * 60 * 1000;
+const HISTORY_MS = 48 * 3600 * 1000;
+const PREDICTIONS_PAST_MS = 24 * 3600 * 1000;
+const PREDICTIONS_FUTURE_MS = 3 * 24 * 3600 * 1000;
+const SURGE_AMPLITUDE = 0.25;              // m
+const SURGE_PERIOD = 2.7 * 24 * 3600 * 1000;
+const JITTER = 0.02;                       // m
+
+function hashString(str: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+// Integer hash → [-1, 1], stable per (seed, index)
+function jitter(seed: number, index: number): number {
+  let x = (seed ^ Math.imul(index, 0x9e3779b1)) >>> 0;
+  x = Math.imul(x ^ (x >>> 16), 0x85ebca6b);
+  x = Math.imul(x ^ (x >>> 13), 0xc2b2ae35);
+  x = (x ^ (x >>> 16)) >>> 0;
+  return (x / 0xffffffff) * 2 - 1;
+}
+
+function harmonicsFor(station: Station) {
+  return STATION_HARMONICS[station.id] ?? STATION_HARMONICS[DEFAULT_STATION.id];
+}
+
+export function syntheticLevel(station: Station, time: number): number {
+  const seed = hashString(station.id);
+  const surgePhase = (seed % 360) * (Math.PI / 180);
+  const surge = SURGE_AMPLITUDE * Math.sin((2 * Math.PI * time) / SURGE_PERIOD + surgePhase);
+  const index = Math.floor(time / READING_INTERVAL);
+  return harmonicLevel(harmonicsFor(station), time) + surge + jitter(seed, index) * JITTER;
+}
+
+export const syntheticProvider: TideProvider = {
+  id: 'synthetic',
+
+  async fetchStationInfo(station) {
+    return { name: `${station.name} (synthetic)`, lat: null, long: null };
+  },
+
+  async fetchReadings(station, since, until) {
+    const latest = Math.floor(Math.min(Date.now(), until?.getTime() ?? Infinity) / READING_INTERVAL) * READING_INTERVAL;
+    const first = since
+      ? Math.floor(since.getTime() / READING_INTERVAL) * READING_INTERVAL + READING_INTERVAL
+      : latest - HISTORY_MS;
+    const readings: TideReading[] = [];
+    for (let t = first; t <= latest; t += READING_INTERVAL) {
+      readings.push({ time: new Date(t), level: syntheticLevel(station, t) });
+    }
+    return { readings, cachedAt: null };
+  },
+
+  async fetchTideGauges() {
+    return []; // the curated stations are enough to demo with
+  },
+
+  async fetchPredictions(station) {
+    const now = Date.now();
+    return {
+      events: harmonicEvents(harmonicsFor(station), now - PREDICTIONS_PAST_MS, now + PREDICTIONS_FUTURE_MS),
+      issue: null,
+    };
+  },
+
+  async fetchHarmonics(station) {
+    return harmonicsFor(station);
+  },
+};
@@ -0,0 +1,38 @@
+import type { HarmonicConstants, PredictionsIssue, StationInfo, TideGauge, TideReading, TidalEvent } from '../types';
+import type { Station } from '../stations';
+
+// A provider answers the three questions the app asks about a station.
+// Real data is split across services (EA for gauges, Admiralty for
+// predictions), so each part is its own interface and providers compose.
+
+export interface StationInfoSource {
+  fetchStationInfo(station: Station): Promise<StationInfo>;
+}
+
+export interface ReadingsBatch {
+  readings: TideReading[]; // oldest first
+  cachedAt: Date | null;   // set when served from the offline cache rather than the network
+}
+
+export interface ReadingsSource {
+  /** Observed levels: everything after `since` (up to `until`), or the latest batch without it. */
+  fetchReadings(station: Station, since?: Date, until?: Date): Promise<ReadingsBatch>;
+  /** Every gauge with readings, for the station catalogue; empty for just the curated stations. */
+  fetchTideGauges(): Promise<TideGauge[]>;
+}
+
+export interface PredictionsBatch {
+  events: TidalEvent[];             // empty when none are available
+  issue: PredictionsIssue | null;   // set when some were found but couldn't be used
+}
+
+export interface PredictionsSource {
+  /** Predicted high/low waters. */
+  fetchPredictions(station: Station): Promise<PredictionsBatch>;
+  /** Harmonic constants that beat the bundled ones, or null. */
+  fetchHarmonics(station: Station): Promise<HarmonicConstants | null>;
+}
+
+export interface TideProvider extends StationInfoSource, ReadingsSource, PredictionsSource {
+  id: string;
+}
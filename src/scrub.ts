@@ -0,0 +1,27 @@
+// Scrub offset shared between the canvas, which drives it from drag/wheel and
+// animates the snapback, and the overlay, which reads out the scrubbed moment.
+// A plain subscribable value rather than React state because it changes every frame.
+
+export interface ScrubStore {
+  get(): number; // ms from the view's base moment (now, or the pinned time); + = future
+  set(offset: number): void;
+  subscribe(listener: () => void): () => void;
+}
+
+export function createScrubStore(): ScrubStore {
+  let offset = 0;
+  const listeners = new Set<() => void>();
+
+  return {
+    get: () => offset,
+    set: (next) => {
+      if (next === offset) return;
+      offset = next;
+      for (const listener of listeners) listener();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
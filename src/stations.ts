@@ -1,18 +1,85 @@
+import type { Coordinates, HarmonicConstants, TideGauge } from './types';
+import stationTable from './data/stations.json';
+
 export interface Station {
   id: string;
   name: string;
   eaStation: string;
-  admiraltyStation: string;
-  cdToMaod: number;
+  admiraltyStation: string | null; // null for EA gauges with no Admiralty counterpart
+  cdToMaod: number | null;         // chart datum → mAOD, where known
+  lat?: number;
+  long?: number;
+  riverKm?: number; // approximate distance up the river from Southend Pier, curated stations only
 }
 
-export const STATIONS: Station[] = [
-  { id: 'tower-pier',   name: 'Tower Pier',   eaStation: '0007', admiraltyStation: '0113',  cdToMaod: -2.97 },
-  { id: 'silvertown',   name: 'Silvertown',   eaStation: '0001', admiraltyStation: '0112',  cdToMaod: -2.79 },
-  { id: 'hammersmith',  name: 'Hammersmith',  eaStation: '0010', admiraltyStation: '0115',  cdToMaod: -1.06 },
-  { id: 'richmond',     name: 'Richmond',     eaStation: '0009', admiraltyStation: '0116',  cdToMaod: +0.34 },
-  { id: 'tilbury',      name: 'Tilbury',      eaStation: '0020', admiraltyStation: '0111',  cdToMaod: -2.60 },
-  { id: 'southend',     name: 'Southend',     eaStation: '0019', admiraltyStation: '0110',  cdToMaod: -2.51 },
-];
+// The curated stations, and the mapping from EA gauges to Admiralty stations
+// and datum offsets. Shared with the build scripts in scripts/, which can't
+// import TypeScript, so predictions are only built for these.
+export const STATIONS: Station[] = stationTable;
+
+// Placeholder harmonic constants per station (amplitude m, Greenwich phase °):
+// hand-written approximations, used only until scripts/fit-harmonics.mjs has
+// fitted the station, and flagged in the overlay while they are. Upstream
+// stations show the Thames' growing shallow-water terms (M4, MS4): a short,
+// steep flood and a long ebb.
+export const STATION_HARMONICS: Record<string, HarmonicConstants> = {
+  'tower-pier':  { datum: 0.50, constituents: { M2: [2.80, 52], S2: [0.50, 102], N2: [0.42, 30], K2: [0.14, 102], K1: [0.09, 20], O1: [0.14, 200], M4: [0.26, 14], MS4: [0.16, 64], MN4: [0.09, 352], M6: [0.07, 6] } },
+  'silvertown':  { datum: 0.40, constituents: { M2: [2.70, 42], S2: [0.50, 92], N2: [0.41, 20], K2: [0.14, 92], K1: [0.09, 19], O1: [0.14, 199], M4: [0.22, 354], MS4: [0.13, 44], MN4: [0.08, 332], M6: [0.06, 336] } },
+  'hammersmith': { datum: 0.90, constituents: { M2: [2.30, 72], S2: [0.40, 122], N2: [0.34, 50], K2: [0.11, 122], K1: [0.09, 22], O1: [0.14, 202], M4: [0.30, 54], MS4: [0.18, 104], MN4: [0.10, 32], M6: [0.07, 66] } },
+  'richmond':    { datum: 1.60, constituents: { M2: [1.50, 86], S2: [0.28, 136], N2: [0.22, 64], K2: [0.08, 136], K1: [0.09, 24], O1: [0.14, 204], M4: [0.32, 82], MS4: [0.19, 132], MN4: [0.11, 60], M6: [0.08, 108] } },
+  'tilbury':     { datum: 0.30, constituents: { M2: [2.45, 30], S2: [0.50, 80], N2: [0.37, 8], K2: [0.14, 80], K1: [0.09, 18], O1: [0.14, 198], M4: [0.18, 330], MS4: [0.11, 20], MN4: [0.06, 308], M6: [0.04, 300] } },
+  'southend':    { datum: 0.20, constituents: { M2: [2.12, 20], S2: [0.52, 70], N2: [0.32, 358], K2: [0.15, 70], K1: [0.09, 17], O1: [0.14, 197], M4: [0.12, 310], MS4: [0.07, 0], MN4: [0.04, 288], M6: [0.03, 270] } },
+};
 
 export const DEFAULT_STATION = STATIONS[0];
+
+/** Curated stations in order up the estuary, for the comparison view. */
+export const ESTUARY_STATIONS: Station[] = STATIONS
+  .filter((s) => s.riverKm !== undefined)
+  .sort((a, b) => a.riverKm! - b.riverKm!);
+
+// ── Catalogue ──
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * The full station list: every EA tide gauge, with the curated stations'
+ * ids, names and Admiralty details where a gauge is one of them. Curated
+ * stations are kept even if the EA list doesn't include them.
+ */
+export function buildCatalogue(gauges: TideGauge[]): Station[] {
+  const byGauge = new Map(STATIONS.map((s) => [s.eaStation, s]));
+  const stations: Station[] = gauges.map((g) => {
+    const curated = byGauge.get(g.eaStation);
+    if (curated) byGauge.delete(g.eaStation);
+    return curated
+      ? { ...curated, lat: g.lat, long: g.long }
+      : { id: `ea-${g.eaStation}`, name: g.name, eaStation: g.eaStation, admiraltyStation: null, cdToMaod: null, lat: g.lat, long: g.long };
+  });
+  return [...byGauge.values(), ...stations].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Case-insensitive name search, word starts first ("tow" puts Tower Pier before Newtown). */
+export function searchStations(stations: Station[], query: string): Station[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return stations;
+  const wordStart = (s: Station) => s.name.toLowerCase().split(/[\s-]+/).some((w) => w.startsWith(q));
+  const matches = stations.filter((s) => s.name.toLowerCase().includes(q));
+  return [...matches.filter(wordStart), ...matches.filter((s) => !wordStart(s))];
+}
+
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+  const D2R = Math.PI / 180;
+  const dLat = (b.lat - a.lat) * D2R;
+  const dLong = (b.long - a.long) * D2R;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * D2R) * Math.cos(b.lat * D2R) * Math.sin(dLong / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/** Stations with a known position, closest first. */
+export function nearestStations(stations: Station[], from: Coordinates, count: number = 5): { station: Station; km: number }[] {
+  return stations
+    .flatMap((s) => (s.lat !== undefined && s.long !== undefined ? [{ station: s, km: distanceKm(from, { lat: s.lat, long: s.long }) }] : []))
+    .sort((a, b) => a.km - b.km)
+    .slice(0, count);
+}
@@ -0,0 +1,44 @@
+import type { AlertRule, AlertState } from '../types';
+
+// Alert rules and their de-duplication state live in localStorage alongside
+// the selected station (`thames-tides-station`), so they survive reloads and
+// a crossing that already fired doesn't fire again after one.
+
+const RULES_KEY = 'thames-tides-alerts';
+const STATE_KEY = 'thames-tides-alert-state';
+
+export function loadAlertRules(): AlertRule[] {
+  try {
+    const stored = localStorage.getItem(RULES_KEY);
+    if (stored) return JSON.parse(stored) as AlertRule[];
+  } catch {
+    // unreadable or blocked storage — no alerts
+  }
+  return [];
+}
+
+export function saveAlertRules(rules: AlertRule[]): void {
+  try {
+    localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+  } catch {
+    // storage full or blocked — rules last for this session only
+  }
+}
+
+export function loadAlertState(): AlertState {
+  try {
+    const stored = localStorage.getItem(STATE_KEY);
+    if (stored) return JSON.parse(stored) as AlertState;
+  } catch {
+    // fall through to a fresh state
+  }
+  return { active: {}, fired: {} };
+}
+
+export function saveAlertState(state: AlertState): void {
+  try {
+    localStorage.setItem(STATE_KEY, JSON.stringify(state));
+  } catch {
+    // as above
+  }
+}
@@ -0,0 +1,25 @@
+import type { BarrierOverride } from '../types';
+
+// The user's Thames Barrier override, for when they know better than the
+// schedule and the levels (e.g. an unscheduled closure announced on the radio).
+
+const OVERRIDE_KEY = 'thames-tides-barrier';
+
+export function loadBarrierOverride(): BarrierOverride {
+  try {
+    const stored = localStorage.getItem(OVERRIDE_KEY);
+    if (stored === 'closed' || stored === 'open') return stored;
+  } catch {
+    // unreadable or blocked storage — automatic
+  }
+  return null;
+}
+
+export function saveBarrierOverride(override: BarrierOverride): void {
+  try {
+    if (override) localStorage.setItem(OVERRIDE_KEY, override);
+    else localStorage.removeItem(OVERRIDE_KEY);
+  } catch {
+    // storage full or blocked — override lasts for this session only
+  }
+}
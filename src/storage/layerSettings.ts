@@ -0,0 +1,36 @@
+import type { LayerConfig, LayerSettings } from '../types';
+import { DEFAULT_LAYERS, getLayer } from '../engine/renderer';
+
+// The chosen visual preset, or the user's own layer stack, in localStorage
+
+const LAYERS_KEY = 'thames-tides-layers';
+
+export const DEFAULT_LAYER_SETTINGS: LayerSettings = { preset: 'caustics', layers: DEFAULT_LAYERS };
+
+// Drop layers this version doesn't know and add any it has that weren't saved
+function reconcile(stored: LayerConfig[]): LayerConfig[] {
+  const known = stored.filter((l) => getLayer(l.id));
+  const missing = DEFAULT_LAYERS.filter((d) => !known.some((l) => l.id === d.id)).map((d) => ({ ...d, enabled: false }));
+  return [...known, ...missing];
+}
+
+export function loadLayerSettings(): LayerSettings {
+  try {
+    const stored = localStorage.getItem(LAYERS_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as LayerSettings;
+      return { preset: parsed.preset, layers: reconcile(parsed.layers) };
+    }
+  } catch {
+    // unreadable or blocked storage — default look
+  }
+  return DEFAULT_LAYER_SETTINGS;
+}
+
+export function saveLayerSettings(settings: LayerSettings): void {
+  try {
+    localStorage.setItem(LAYERS_KEY, JSON.stringify(settings));
+  } catch {
+    // storage full or blocked — the look lasts for this session only
+  }
+}
@@ -0,0 +1,25 @@
+import type { NavigationSettings } from '../types';
+import { DEFAULT_NAVIGATION } from '../utils/navigation';
+
+// The user's boat and trip, kept with their other settings in localStorage
+
+const SETTINGS_KEY = 'thames-tides-navigation';
+
+export function loadNavigationSettings(): NavigationSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    // Merge over the defaults so settings saved by an older version still load
+    if (stored) return { ...DEFAULT_NAVIGATION, ...(JSON.parse(stored) as Partial<NavigationSettings>) };
+  } catch {
+    // unreadable or blocked storage — defaults
+  }
+  return DEFAULT_NAVIGATION;
+}
+
+export function saveNavigationSettings(settings: NavigationSettings): void {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // storage full or blocked — settings last for this session only
+  }
+}
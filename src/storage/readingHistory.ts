@@ -0,0 +1,164 @@
+import type { TideReading } from '../types';
+
+// Local reading history in IndexedDB, keyed by [stationId, time]. EA only
+// returns recent readings, so everything we've ever fetched is kept here and
+// only the ranges we're missing get fetched again. Gaps inside the history are
+// usually gauge outages EA can't fill either, so each is only asked for once.
+
+const DB_NAME = 'thames-tides';
+const DB_VERSION = 2;
+const STORE = 'readings';
+const GAPS_STORE = 'triedGaps';
+const RETENTION_MS = 60 * 24 * 3600 * 1000;
+const READING_INTERVAL = 15 * 60 * 1000;
+const GAP_THRESHOLD = READING_INTERVAL * 3; // a couple of missed readings isn't worth a fetch
+const BACKFILL_WINDOW_MS = 7 * 24 * 3600 * 1000; // older gaps are gauge outages, not ours to fill
+
+interface StoredReading {
+  stationId: string;
+  time: number; // epoch ms
+  level: number;
+}
+
+export interface Gap {
+  start: number; // epoch ms, last reading before the gap
+  end: number;   // epoch ms, first reading after it (or now)
+  trailing: boolean; // runs from the newest reading up to now
+}
+
+interface TriedGap {
+  stationId: string;
+  end: number; // epoch ms, as in Gap (its start is clipped to the window, so moves)
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: ['stationId', 'time'] });
+        }
+        if (!db.objectStoreNames.contains(GAPS_STORE)) {
+          db.createObjectStore(GAPS_STORE, { keyPath: ['stationId', 'end'] });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Let a later call retry if this one failed (e.g. storage blocked)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+function stationRange(stationId: string, from: number, to: number): IDBKeyRange {
+  return IDBKeyRange.bound([stationId, from], [stationId, to]);
+}
+
+/** Stored readings for a station since `since` (epoch ms), oldest first. */
+export async function loadHistory(stationId: string, since: number): Promise<TideReading[]> {
+  try {
+    const db = await openDb();
+    return await new Promise((resolve, reject) => {
+      const req = db
+        .transaction(STORE, 'readonly')
+        .objectStore(STORE)
+        .getAll(stationRange(stationId, since, Number.MAX_SAFE_INTEGER));
+      req.onsuccess = () => {
+        const rows = req.result as StoredReading[];
+        resolve(rows.map((r) => ({ time: new Date(r.time), level: r.level })));
+      };
+      req.onerror = () => reject(req.error);
+    });
+  } catch {
+    return []; // no IndexedDB (private mode, old browser) — history is best-effort
+  }
+}
+
+/** Merge readings into the store and drop anything past retention. */
+export async function saveReadings(stationId: string, readings: TideReading[]): Promise<void> {
+  try {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE, 'readwrite');
+      const store = tx.objectStore(STORE);
+      for (const r of readings) {
+        store.put({ stationId, time: r.time.getTime(), level: r.level } satisfies StoredReading);
+      }
+      store.delete(stationRange(stationId, 0, Date.now() - RETENTION_MS));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch {
+    // best-effort, as above
+  }
+}
+
+/** End times of the gaps already fetched once for a station. */
+export async function loadTriedGaps(stationId: string): Promise<Set<number>> {
+  try {
+    const db = await openDb();
+    return await new Promise((resolve, reject) => {
+      const req = db
+        .transaction(GAPS_STORE, 'readonly')
+        .objectStore(GAPS_STORE)
+        .getAll(stationRange(stationId, 0, Number.MAX_SAFE_INTEGER));
+      req.onsuccess = () => resolve(new Set((req.result as TriedGap[]).map((g) => g.end)));
+      req.onerror = () => reject(req.error);
+    });
+  } catch {
+    return new Set(); // best-effort, as above
+  }
+}
+
+/** Record gaps as fetched, and forget those that have left the backfill window. */
+export async function markGapsTried(stationId: string, gaps: Gap[]): Promise<void> {
+  try {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(GAPS_STORE, 'readwrite');
+      const store = tx.objectStore(GAPS_STORE);
+      for (const g of gaps) store.put({ stationId, end: g.end } satisfies TriedGap);
+      store.delete(stationRange(stationId, 0, Date.now() - BACKFILL_WINDOW_MS));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch {
+    // best-effort, as above
+  }
+}
+
+/** Union of two sorted reading lists; `fresh` wins where both have the same time. */
+export function mergeReadings(stored: TideReading[], fresh: TideReading[]): TideReading[] {
+  const byTime = new Map<number, TideReading>();
+  for (const r of stored) byTime.set(r.time.getTime(), r);
+  for (const r of fresh) byTime.set(r.time.getTime(), r);
+  return [...byTime.values()].sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+/**
+ * Missing stretches in the recent history, including the trailing one from
+ * the newest stored reading up to `now` (there always is one after a suspend).
+ */
+export function findGaps(readings: TideReading[], now: number = Date.now()): Gap[] {
+  const windowStart = now - BACKFILL_WINDOW_MS;
+  const gaps: Gap[] = [];
+
+  for (let i = 1; i < readings.length; i++) {
+    const start = readings[i - 1].time.getTime();
+    const end = readings[i].time.getTime();
+    if (end < windowStart) continue;
+    if (end - start > GAP_THRESHOLD) gaps.push({ start: Math.max(start, windowStart), end, trailing: false });
+  }
+
+  const last = readings[readings.length - 1];
+  if (last && now - last.time.getTime() > READING_INTERVAL) {
+    gaps.push({ start: Math.max(last.time.getTime(), windowStart), end: now, trailing: true });
+  }
+
+  return gaps;
+}
@@ -0,0 +1,34 @@
+import type { TideGauge } from '../types';
+
+// The EA gauge list changes a few times a year at most, so it's cached in
+// localStorage and only refetched once it's a week old. Kept synchronous so
+// a saved catalogue station can be restored before the first render.
+
+const CATALOGUE_KEY = 'thames-tides-catalogue';
+const MAX_AGE_MS = 7 * 24 * 3600 * 1000;
+
+interface CachedCatalogue {
+  fetchedAt: number; // epoch ms
+  gauges: TideGauge[];
+}
+
+export function loadCachedGauges(): { gauges: TideGauge[]; fresh: boolean } {
+  try {
+    const stored = localStorage.getItem(CATALOGUE_KEY);
+    if (stored) {
+      const cached = JSON.parse(stored) as CachedCatalogue;
+      return { gauges: cached.gauges, fresh: Date.now() - cached.fetchedAt < MAX_AGE_MS };
+    }
+  } catch {
+    // unreadable — treat as never fetched
+  }
+  return { gauges: [], fresh: false };
+}
+
+export function saveGauges(gauges: TideGauge[]): void {
+  try {
+    localStorage.setItem(CATALOGUE_KEY, JSON.stringify({ fetchedAt: Date.now(), gauges } satisfies CachedCatalogue));
+  } catch {
+    // storage full or blocked — refetched next session
+  }
+}
@@ -23,11 +23,30 @@ export interface EAStation {
   measures: EAMeasure | EAMeasure[];
 }
 
+// An EA tide gauge as listed by the station catalogue
+export interface TideGauge {
+  eaStation: string; // stationReference
+  name: string;
+  lat: number;
+  long: number;
+}
+
 // ── Visualization types ──
 
 export type TideState = 'rising' | 'falling' | 'high_slack' | 'low_slack';
 export type Theme = 'dark' | 'light';
 
+export interface Coordinates {
+  lat: number;  // degrees north
+  long: number; // degrees east (negative = west)
+}
+
+export interface StationInfo {
+  name: string;
+  lat: number | null;
+  long: number | null;
+}
+
 export interface TideReading {
   time: Date;
   level: number; // mAOD
@@ -37,6 +56,77 @@ export interface TidalEvent {
   type: 'high' | 'low';
   time: Date;
   level: number; // mAOD
+  harmonic?: boolean; // from the harmonic model rather than published predictions
+}
+
+// ── Harmonic prediction types ──
+
+export type ConstituentName =
+  | 'M2' | 'S2' | 'N2' | 'K2' | 'L2' | 'NU2' | 'MU2' | '2N2'
+  | 'K1' | 'O1' | 'P1' | 'Q1'
+  | 'M4' | 'MS4' | 'MN4' | 'M6'
+  | 'SA' | 'SSA';
+
+export interface HarmonicConstants {
+  datum: number; // Z0, mean level in mAOD
+  // Amplitude (m) and Greenwich phase lag (degrees, UTC) per constituent
+  constituents: Partial<Record<ConstituentName, [amplitude: number, phase: number]>>;
+}
+
+export interface SurgeAnalysis {
+  residual: number; // m, observed minus predicted (positive = running high)
+  trend: number;    // m/hour change in residual
+  nextHigh: {
+    time: Date;
+    predictedLevel: number; // mAOD
+    adjustedLevel: number;  // mAOD, prediction + projected residual
+  } | null;
+}
+
+export type QualityIssue =
+  | 'stale'    // newest reading is too old
+  | 'flatline' // gauge stuck while the tide should be moving
+  | 'spike'    // isolated wild values (dropped before use)
+  | 'rate';    // level changing faster than any real tide
+
+// Why published predictions were set aside for the harmonic model
+export type PredictionsIssue =
+  | 'mismatch' // the build-time file is for another station
+  | 'stale';   // the build-time file is out of date
+
+export interface DataQuality {
+  status: 'ok' | 'suspect' | 'stale';
+  issues: QualityIssue[];
+  predictionsIssue: PredictionsIssue | null;
+  latestReadingAt: Date | null;
+  spikeTimes: number[]; // epoch ms of readings treated as spikes
+  confidence: number;   // 0..1, damps the visuals when data is doubtful
+}
+
+export type MoonPhaseName =
+  | 'New moon' | 'Waxing crescent' | 'First quarter' | 'Waxing gibbous'
+  | 'Full moon' | 'Waning gibbous' | 'Last quarter' | 'Waning crescent';
+
+export interface SpringNeapState {
+  moonPhase: MoonPhaseName;
+  illumination: number;  // 0..1 of the disc lit
+  lunarAge: number;      // days since new moon
+  position: number;      // 0 = neaps, 1 = springs, from the lunar cycle
+  daysToSprings: number;
+  daysToNeaps: number;
+  todayRange: number | null; // m, largest high–low swing in today's predictions
+  rangeFactor: number;   // 0 = neap range, 1 = spring range (today's range where known)
+}
+
+// ── Thames Barrier ──
+
+export type BarrierOverride = 'closed' | 'open' | null; // null = decide automatically
+
+export interface BarrierStatus {
+  closed: boolean;
+  source: 'manual' | 'schedule' | 'detected' | null; // what decided it; null = nothing says closed
+  until: Date | null;     // expected reopening, when a schedule gives one
+  reason: string | null;
 }
 
 export interface TideData {
@@ -44,9 +134,48 @@ export interface TideData {
   predictions: TidalEvent[];
   currentLevel: number;
   tideState: TideState;
-  lastUpdated: Date;
+  lastUpdated: Date; // time of the newest reading, not of the fetch
   stationName: string;
+  location: Coordinates | null; // station position, once known from the provider
   rateOfChange: number; // m/hour, positive = rising
+  surge: SurgeAnalysis | null; // null when readings can't be compared to predictions
+  harmonics: HarmonicConstants | null; // station's harmonic model, if one is known
+  harmonicsPlaceholder: boolean; // the model is the bundled approximation, not fitted to this gauge
+  cachedAt: Date | null; // set when readings came from an offline cache instead of the network
+  quality: DataQuality;
+  springNeap: SpringNeapState;
+  barrier: BarrierStatus | null; // null unless the station is upstream of the Thames Barrier
+}
+
+// ── Alert types ──
+
+export type AlertRule =
+  | { id: string; stationId: string; kind: 'level_above' | 'level_below'; level: number } // mAOD
+  | { id: string; stationId: string; kind: 'before_event'; event: 'high' | 'low'; minutes: number };
+
+export interface AlertState {
+  active: Record<string, boolean>; // level rules: condition currently met (already fired)
+  fired: Record<string, number>;   // event rules: `${ruleId}@${eventTime}` → when it fired
+}
+
+// ── Navigation windows ──
+
+export type TripDirection = 'upstream' | 'downstream' | 'either';
+export type StreamDirection = 'flood' | 'ebb' | 'slack';
+
+export interface NavigationSettings {
+  enabled: boolean;     // show windows on the tide curve
+  draft: number;        // m of water the boat needs
+  launchHeight: number; // m above chart datum where the launch point dries
+  trip: TripDirection;
+  slackMinutes: number; // either side of high or low water counted as slack
+}
+
+export interface NavigationWindow {
+  start: Date;
+  end: Date;
+  streams: StreamDirection[]; // in the order they come
+  minDepth: number;           // m over the launch point, lowest during the window
 }
 
 export interface Particle {
@@ -69,6 +198,52 @@ export interface PointerState {
   active: boolean;
 }
 
+// ── Render layers ──
+
+export type LayerId = 'background' | 'caustics' | 'mesh' | 'glow' | 'particles' | 'curve';
+export type VisualPreset = 'caustics' | 'particles' | 'minimal';
+
+export interface LayerConfig {
+  id: LayerId;
+  enabled: boolean;
+  opacity: number; // 0..1
+}
+
+export interface LayerSettings {
+  preset: VisualPreset | null; // null once the layers have been changed by hand
+  layers: LayerConfig[];       // in drawing order, bottom first
+}
+
+// ── Render quality ──
+
+// The knobs the quality governor turns; one set per quality level
+export interface QualitySettings {
+  causticCell: number;   // px per caustic noise sample (the GL path scales its resolution to match)
+  meshLines: number;
+  meshPoints: number;    // per mesh line
+  particleCount: number;
+  frameInterval: number; // ms between frames
+}
+
+// What the page knows and the render loop (maybe in a worker) can't find out
+export interface RenderHints {
+  reducedMotion: boolean; // prefers-reduced-motion
+  powerSaving: boolean;   // low battery or Save-Data
+  hidden: boolean;        // page not visible — render nothing
+}
+
+export type RenderBackend = 'webgl2' | 'canvas2d';
+
+// Averaged over a short window, for the debug HUD
+export interface FrameStats {
+  backend: RenderBackend;
+  worker: boolean;                          // rendering off the main thread
+  level: number;                            // index into QUALITY_LEVELS
+  fps: number;
+  frameMs: number;                          // time spent rendering each frame
+  layers: Partial<Record<LayerId, number>>; // ms per frame, by layer
+}
+
 export interface VisualizationState {
   width: number;
   height: number;
@@ -78,10 +253,23 @@ export interface VisualizationState {
   rateOfChange: number;
   readings: TideReading[];
   predictions: TidalEvent[];
+  harmonics: HarmonicConstants | null;
   time: number; // animation time in seconds
   pointer: PointerState;
   theme: Theme;
   themeBlend: number; // 0 = fully dark, 1 = fully light (animated)
   stationId: string; // used to key caches per station
-  timeOffset: number; // ms offset for scrubbing the tide curve (0 = live)
+  timeOffset: number; // ms offset of the view centre from now (0 = live)
+  pinnedTime: number | null; // epoch ms the view is pinned to, null when following live
+  dataConfidence: number; // 0..1 from DataQuality — visuals calm down when data is suspect
+  rangeFactor: number; // 0 = neaps, 1 = springs — bigger tides, livelier water
+  barrierClosed: boolean; // upstream water held by the Thames Barrier — no tidal flow
+  navigationWindows: NavigationWindow[]; // highlighted on the tide curve
+  quality: QualitySettings; // from the quality governor
 }
+
+// What the page hands the render loop; the loop adds its own animation clock
+// and quality, and works out timeOffset from the scrub offset and pinned time
+export type SceneState = Omit<VisualizationState, 'time' | 'timeOffset' | 'quality'> & {
+  scrubOffset: number; // ms, from the scrub store
+};
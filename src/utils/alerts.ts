@@ -0,0 +1,89 @@
+import type { AlertRule, AlertState, TideData } from '../types';
+
+// Alert evaluation. Pure: takes the previous de-duplication state and returns
+// the next one, so each rule fires once per crossing (or once per tidal event)
+// however often the polling loop calls in.
+
+const LEVEL_HYSTERESIS = 0.05;           // m — must fall back this far before re-arming
+const FIRED_RETENTION_MS = 2 * 24 * 3600 * 1000;
+
+export interface AlertFiring {
+  rule: AlertRule;
+  tag: string; // stable per crossing/event, used as the notification tag
+  title: string;
+  body: string;
+}
+
+export function describeRule(rule: AlertRule): string {
+  switch (rule.kind) {
+    case 'level_above': return `Level rises above ${rule.level.toFixed(2)} mAOD`;
+    case 'level_below': return `Level falls below ${rule.level.toFixed(2)} mAOD`;
+    case 'before_event': return `${rule.minutes} min before ${rule.event} water`;
+  }
+}
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+}
+
+export function evaluateAlerts(
+  rules: AlertRule[],
+  data: TideData,
+  stationId: string,
+  stationName: string,
+  prev: AlertState,
+  now: number = Date.now()
+): { firings: AlertFiring[]; state: AlertState } {
+  const state: AlertState = { active: { ...prev.active }, fired: {} };
+  const firings: AlertFiring[] = [];
+
+  // Drop event keys that are long past
+  for (const [tag, at] of Object.entries(prev.fired)) {
+    if (now - at < FIRED_RETENTION_MS) state.fired[tag] = at;
+  }
+
+  for (const rule of rules) {
+    if (rule.stationId !== stationId) continue;
+
+    if (rule.kind !== 'before_event') {
+      const above = rule.kind === 'level_above';
+      const level = data.currentLevel;
+      const wasActive = prev.active[rule.id];
+      const met = above ? level >= rule.level : level <= rule.level;
+      const cleared = above ? level < rule.level - LEVEL_HYSTERESIS : level > rule.level + LEVEL_HYSTERESIS;
+
+      if (wasActive === undefined) {
+        // First sight of this rule: record where we are, don't fire for a crossing we didn't see
+        state.active[rule.id] = met;
+      } else if (!wasActive && met) {
+        state.active[rule.id] = true;
+        firings.push({
+          rule,
+          tag: `${rule.id}@${now}`,
+          title: `Thames at ${stationName}`,
+          body: `Level ${above ? 'up to' : 'down to'} ${level.toFixed(2)} mAOD (${above ? 'above' : 'below'} ${rule.level.toFixed(2)})`,
+        });
+      } else if (wasActive && cleared) {
+        state.active[rule.id] = false;
+      }
+      continue;
+    }
+
+    // before_event: fire once for each upcoming high/low inside the lead time
+    const next = data.predictions.find((e) => e.type === rule.event && e.time.getTime() > now);
+    if (!next) continue;
+    const minsUntil = (next.time.getTime() - now) / 60000;
+    const tag = `${rule.id}@${next.time.getTime()}`;
+    if (minsUntil <= rule.minutes && !(tag in state.fired)) {
+      state.fired[tag] = now;
+      firings.push({
+        rule,
+        tag,
+        title: `Thames at ${stationName}`,
+        body: `${rule.event === 'high' ? 'High' : 'Low'} water at ${formatTime(next.time)} (${next.level.toFixed(2)} mAOD) — ${Math.round(minsUntil)} min`,
+      });
+    }
+  }
+
+  return { firings, state };
+}
@@ -0,0 +1,45 @@
+// Mean astronomical longitudes (degrees) used by the tidal harmonic method.
+// Polynomials are the leading terms from Meeus, "Astronomical Algorithms" —
+// plenty for tide prediction, where nodal corrections absorb the slow terms.
+
+const J2000_MS = Date.UTC(2000, 0, 1, 12, 0, 0); // J2000.0 epoch
+const MS_PER_DAY = 86400 * 1000;
+
+export interface AstroArguments {
+  tau: number; // mean lunar time (Greenwich)
+  s: number;   // mean longitude of the moon
+  h: number;   // mean longitude of the sun
+  p: number;   // longitude of lunar perigee
+  N: number;   // longitude of the moon's ascending node
+  p1: number;  // longitude of solar perigee
+}
+
+// Rates in degrees per mean solar hour (Doodson)
+export const ASTRO_RATES = {
+  tau: 14.4920521,
+  s: 0.5490165,
+  h: 0.0410686,
+  p: 0.0046418,
+  p1: 0.0000020,
+} as const;
+
+export function normalizeDegrees(deg: number): number {
+  return ((deg % 360) + 360) % 360;
+}
+
+export function astronomicalArguments(time: number): AstroArguments {
+  const d = (time - J2000_MS) / MS_PER_DAY;
+  const T = d / 36525;
+
+  const s = normalizeDegrees(218.3164477 + 481267.88123421 * T);
+  const h = normalizeDegrees(280.46646 + 36000.76983 * T);
+  const p = normalizeDegrees(83.3532465 + 4069.0137287 * T);
+  const N = normalizeDegrees(125.04452 - 1934.136261 * T);
+  const p1 = normalizeDegrees(282.93735 + 1.71946 * T);
+
+  // Mean solar hour angle at Greenwich: 180° at 00:00 UT
+  const utHours = (((time / 3600_000) % 24) + 24) % 24;
+  const tau = normalizeDegrees(15 * utHours + 180 + h - s);
+
+  return { tau, s, h, p, N, p1 };
+}
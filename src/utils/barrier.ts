@@ -0,0 +1,66 @@
+import type { BarrierStatus, HarmonicConstants, TideReading } from '../types';
+import type { Station } from '../stations';
+import { harmonicLevel } from './harmonics';
+
+// With the Thames Barrier shut the river above it stops being tidal: the level
+// sits flat while the sea side keeps rising. Surge moves both sides together,
+// so a big gap between their residuals (observed minus predicted) is the
+// barrier's doing rather than the weather's.
+
+export const BARRIER_RIVER_KM = 57; // between Silvertown and Woolwich, km up from Southend
+export const SEAWARD_STATION_ID = 'silvertown'; // the gauge just below it, compared against
+
+const DETECT_WINDOW_MS = 90 * 60 * 1000;
+const PAIR_TOLERANCE_MS = 10 * 60 * 1000; // readings this close count as simultaneous
+const DIVERGENCE = 0.6;                   // m — upstream held this far below where the sea side says it should be
+const MIN_READINGS = 3;
+
+export const BARRIER_OPEN: BarrierStatus = { closed: false, source: null, until: null, reason: null };
+
+/** Only the curated stations have a place on the river to judge this by. */
+export function isUpstreamOfBarrier(station: Station): boolean {
+  return station.riverKm !== undefined && station.riverKm > BARRIER_RIVER_KM;
+}
+
+function nearestReading(readings: TideReading[], t: number): TideReading | null {
+  let best: TideReading | null = null;
+  for (const r of readings) {
+    const dt = Math.abs(r.time.getTime() - t);
+    if (dt <= PAIR_TOLERANCE_MS && (!best || dt < Math.abs(best.time.getTime() - t))) best = r;
+  }
+  return best;
+}
+
+/**
+ * True when every recent upstream reading is held well below what the
+ * seaward station's residual says it should be.
+ */
+export function detectBarrierClosure(
+  upstream: TideReading[],
+  upstreamHarmonics: HarmonicConstants | null,
+  seaward: TideReading[],
+  seawardHarmonics: HarmonicConstants | null,
+  now: number = Date.now()
+): boolean {
+  if (!upstreamHarmonics || !seawardHarmonics) return false;
+
+  let compared = 0;
+  for (const r of upstream) {
+    const t = r.time.getTime();
+    if (t < now - DETECT_WINDOW_MS || t > now) continue;
+    const partner = nearestReading(seaward, t);
+    if (!partner) continue;
+
+    const upstreamResidual = r.level - harmonicLevel(upstreamHarmonics, t);
+    const seawardResidual = partner.level - harmonicLevel(seawardHarmonics, partner.time.getTime());
+    if (upstreamResidual - seawardResidual > -DIVERGENCE) return false;
+    compared++;
+  }
+  return compared >= MIN_READINGS;
+}
+
+/** A declared status (manual or scheduled) beats what the levels suggest. */
+export function resolveBarrierStatus(declared: BarrierStatus | null, detected: boolean): BarrierStatus {
+  if (declared) return declared;
+  return detected ? { closed: true, source: 'detected', until: null, reason: null } : BARRIER_OPEN;
+}
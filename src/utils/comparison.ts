@@ -0,0 +1,54 @@
+import type { TideData, TidalEvent } from '../types';
+import type { Station } from '../stations';
+import { padPredictions } from './predictions';
+
+// Following one high water up the estuary: the tide reaches Richmond well over
+// an hour after Southend, and each station's lag is what the comparison view
+// shows.
+
+const MATCH_EARLY_MS = 30 * 60 * 1000;     // upstream can't be meaningfully earlier than this
+const MATCH_WINDOW_MS = 4 * 3600 * 1000;   // nor later than this — that's the next tide
+
+export interface ComparisonFeed {
+  station: Station;
+  data: TideData;
+}
+
+export interface HighWaterLag {
+  station: Station;
+  event: TidalEvent | null;
+  lagMs: number | null; // behind the seaward station's high water
+}
+
+function highsBetween(data: TideData, start: number, end: number): TidalEvent[] {
+  return padPredictions(data.predictions, start, end, data.harmonics)
+    .filter((e) => e.type === 'high' && e.time.getTime() >= start && e.time.getTime() <= end);
+}
+
+/**
+ * One high water traced up the river. `feeds` run seaward first; the first
+ * feed's high water at or after `from` is the reference, and every other
+ * station is matched to its own next high after that.
+ */
+export function traceHighWater(feeds: ComparisonFeed[], from: number): HighWaterLag[] {
+  if (feeds.length === 0) return [];
+  const [seaward] = feeds;
+  const reference = highsBetween(seaward.data, from, from + 13 * 3600 * 1000)[0] ?? null;
+  if (!reference) return feeds.map(({ station }) => ({ station, event: null, lagMs: null }));
+
+  const t0 = reference.time.getTime();
+  return feeds.map(({ station, data }, i) => {
+    const event = i === 0
+      ? reference
+      : highsBetween(data, t0 - MATCH_EARLY_MS, t0 + MATCH_WINDOW_MS)[0] ?? null;
+    return { station, event, lagMs: event ? event.time.getTime() - t0 : null };
+  });
+}
+
+export function formatLag(ms: number): string {
+  const mins = Math.round(ms / 60000);
+  const sign = mins < 0 ? '−' : '+';
+  const abs = Math.abs(mins);
+  const h = Math.floor(abs / 60);
+  return h > 0 ? `${sign}${h}h ${(abs % 60).toString().padStart(2, '0')}m` : `${sign}${abs}m`;
+}
@@ -0,0 +1,79 @@
+import type { Coordinates } from '../types';
+import thames from '../data/thames.json';
+
+// Flat projection for the estuary map. Over 70 km of river an equirectangular
+// projection with longitude scaled by cos(latitude) is indistinguishable from
+// anything fancier, and it keeps the bundled geometry plain lat/long.
+
+const M_PER_DEG_LAT = 111_320;
+
+export interface MapProjection {
+  project: (c: Coordinates) => [number, number];
+  pxPerM: number;
+}
+
+const centreline: Coordinates[] = thames.geometry.coordinates.map(([long, lat]) => ({ lat, long }));
+const halfWidths: number[] = thames.properties.halfWidthM;
+
+/** Fit the river (and anything else given) into a box, keeping north up and the aspect true. */
+export function fitProjection(width: number, height: number, pad: number, extra: Coordinates[] = []): MapProjection {
+  const all = [...centreline, ...extra];
+  let minLat = Infinity;
+  let maxLat = -Infinity;
+  let minLong = Infinity;
+  let maxLong = -Infinity;
+  for (const c of all) {
+    minLat = Math.min(minLat, c.lat);
+    maxLat = Math.max(maxLat, c.lat);
+    minLong = Math.min(minLong, c.long);
+    maxLong = Math.max(maxLong, c.long);
+  }
+
+  const cosLat = Math.cos(((minLat + maxLat) / 2) * Math.PI / 180);
+  const spanX = (maxLong - minLong) * cosLat * M_PER_DEG_LAT;
+  const spanY = (maxLat - minLat) * M_PER_DEG_LAT;
+  const pxPerM = Math.min((width - pad * 2) / spanX, (height - pad * 2) / spanY);
+  const offsetX = (width - spanX * pxPerM) / 2;
+  const offsetY = (height - spanY * pxPerM) / 2;
+
+  return {
+    project: ({ lat, long }) => [
+      offsetX + (long - minLong) * cosLat * M_PER_DEG_LAT * pxPerM,
+      offsetY + (maxLat - lat) * M_PER_DEG_LAT * pxPerM,
+    ],
+    pxPerM,
+  };
+}
+
+/**
+ * SVG path for the river as a filled shape: the centreline offset either side
+ * by its half-width. Narrow reaches get a minimum width so they stay visible
+ * at small sizes.
+ */
+export function riverOutlinePath({ project, pxPerM }: MapProjection, minHalfWidthPx = 1.5): string {
+  const pts = centreline.map(project);
+  const left: [number, number][] = [];
+  const right: [number, number][] = [];
+
+  pts.forEach(([x, y], i) => {
+    const [ax, ay] = pts[Math.max(0, i - 1)];
+    const [bx, by] = pts[Math.min(pts.length - 1, i + 1)];
+    const len = Math.hypot(bx - ax, by - ay) || 1;
+    const nx = -(by - ay) / len;
+    const ny = (bx - ax) / len;
+    const w = Math.max(minHalfWidthPx, halfWidths[i] * pxPerM);
+    left.push([x + nx * w, y + ny * w]);
+    right.push([x - nx * w, y - ny * w]);
+  });
+
+  const ring = [...left, ...right.reverse()];
+  return ring.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`).join(' ') + ' Z';
+}
+
+/** The centreline alone, for a thin stroke down the middle. */
+export function riverCentrePath({ project }: MapProjection): string {
+  return centreline
+    .map(project)
+    .map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`)
+    .join(' ');
+}
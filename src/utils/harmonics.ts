@@ -0,0 +1,192 @@
+import type { ConstituentName, HarmonicConstants, TidalEvent } from '../types';
+import type { LevelPoint } from './predictions';
+import { astronomicalArguments, ASTRO_RATES } from './astronomy';
+
+// Harmonic tide predictor:
+//   level(t) = Z0 + Σ f·H·cos(V(t) + u − g)
+// H/g are a station's amplitude and Greenwich phase lag per constituent,
+// V is the equilibrium argument and f/u the 18.6-year nodal corrections.
+
+const D2R = Math.PI / 180;
+const HOUR_MS = 3600 * 1000;
+const SERIES_STEP = 3 * 60 * 1000;
+const EVENT_STEP = 6 * 60 * 1000;
+const MIN_EVENT_RANGE = 0.1; // m — extrema closer than this are shallow-water wiggles, not turns
+
+type NodalBase = 'none' | 'M2' | 'K1' | 'O1' | 'K2';
+
+interface ConstituentDef {
+  doodson: [number, number, number, number, number]; // multipliers of τ, s, h, p, p1
+  offset: number; // extra phase in degrees
+  nodal: [NodalBase, number]; // base constituent and power (compound tides)
+}
+
+const CONSTITUENTS: Record<ConstituentName, ConstituentDef> = {
+  M2:  { doodson: [2, 0, 0, 0, 0],   offset: 0,   nodal: ['M2', 1] },
+  S2:  { doodson: [2, 2, -2, 0, 0],  offset: 0,   nodal: ['none', 1] },
+  N2:  { doodson: [2, -1, 0, 1, 0],  offset: 0,   nodal: ['M2', 1] },
+  K2:  { doodson: [2, 2, 0, 0, 0],   offset: 0,   nodal: ['K2', 1] },
+  L2:  { doodson: [2, 1, 0, -1, 0],  offset: 180, nodal: ['M2', 1] },
+  NU2: { doodson: [2, -1, 2, -1, 0], offset: 0,   nodal: ['M2', 1] },
+  MU2: { doodson: [2, -2, 2, 0, 0],  offset: 0,   nodal: ['M2', 1] },
+  '2N2': { doodson: [2, -2, 0, 2, 0], offset: 0,  nodal: ['M2', 1] },
+  K1:  { doodson: [1, 1, 0, 0, 0],   offset: 90,  nodal: ['K1', 1] },
+  O1:  { doodson: [1, -1, 0, 0, 0],  offset: -90, nodal: ['O1', 1] },
+  P1:  { doodson: [1, 1, -2, 0, 0],  offset: -90, nodal: ['none', 1] },
+  Q1:  { doodson: [1, -2, 0, 1, 0],  offset: -90, nodal: ['O1', 1] },
+  M4:  { doodson: [4, 0, 0, 0, 0],   offset: 0,   nodal: ['M2', 2] },
+  MS4: { doodson: [4, 2, -2, 0, 0],  offset: 0,   nodal: ['M2', 1] },
+  MN4: { doodson: [4, -1, 0, 1, 0],  offset: 0,   nodal: ['M2', 2] },
+  M6:  { doodson: [6, 0, 0, 0, 0],   offset: 0,   nodal: ['M2', 3] },
+  SA:  { doodson: [0, 0, 1, 0, 0],   offset: 0,   nodal: ['none', 1] },
+  SSA: { doodson: [0, 0, 2, 0, 0],   offset: 0,   nodal: ['none', 1] },
+};
+
+export const CONSTITUENT_NAMES = Object.keys(CONSTITUENTS) as ConstituentName[];
+
+/** Angular speed of a constituent in degrees per hour. */
+export function constituentSpeed(name: ConstituentName): number {
+  const [a, b, c, d, e] = CONSTITUENTS[name].doodson;
+  return a * ASTRO_RATES.tau + b * ASTRO_RATES.s + c * ASTRO_RATES.h + d * ASTRO_RATES.p + e * ASTRO_RATES.p1;
+}
+
+// Schureman's simplified nodal factors (N = lunar node longitude, degrees)
+function nodalFactors(base: NodalBase, N: number): { f: number; u: number } {
+  const n = N * D2R;
+  switch (base) {
+    case 'none':
+      return { f: 1, u: 0 };
+    case 'M2':
+      return {
+        f: 1.0004 - 0.0373 * Math.cos(n) + 0.0002 * Math.cos(2 * n),
+        u: -2.14 * Math.sin(n),
+      };
+    case 'K1':
+      return {
+        f: 1.006 + 0.115 * Math.cos(n) - 0.0088 * Math.cos(2 * n) + 0.0006 * Math.cos(3 * n),
+        u: -8.86 * Math.sin(n) + 0.68 * Math.sin(2 * n) - 0.07 * Math.sin(3 * n),
+      };
+    case 'O1':
+      return {
+        f: 1.0089 + 0.1871 * Math.cos(n) - 0.0147 * Math.cos(2 * n) + 0.0014 * Math.cos(3 * n),
+        u: 10.8 * Math.sin(n) - 1.34 * Math.sin(2 * n) + 0.19 * Math.sin(3 * n),
+      };
+    case 'K2':
+      return {
+        f: 1.0241 + 0.2863 * Math.cos(n) + 0.0083 * Math.cos(2 * n) - 0.0015 * Math.cos(3 * n),
+        u: -17.74 * Math.sin(n) + 0.68 * Math.sin(2 * n) - 0.04 * Math.sin(3 * n),
+      };
+  }
+}
+
+interface PreparedTerm {
+  amplitude: number; // f·H
+  phase: number;     // V0 + u − g at the reference time, degrees
+  speed: number;     // degrees per hour
+}
+
+/**
+ * Resolve constants into plain cosine terms about a reference time. Nodal
+ * factors drift over years, so one evaluation covers any on-screen range.
+ */
+function prepare(constants: HarmonicConstants, refTime: number): PreparedTerm[] {
+  const astro = astronomicalArguments(refTime);
+  const args = [astro.tau, astro.s, astro.h, astro.p, astro.p1];
+  const terms: PreparedTerm[] = [];
+
+  for (const name of CONSTITUENT_NAMES) {
+    const hg = constants.constituents[name];
+    if (!hg) continue;
+    const def = CONSTITUENTS[name];
+    const [base, power] = def.nodal;
+    const { f, u } = nodalFactors(base, astro.N);
+
+    let V = def.offset;
+    for (let i = 0; i < 5; i++) V += def.doodson[i] * args[i];
+
+    terms.push({
+      amplitude: f ** power * hg[0],
+      phase: V + u * power - hg[1],
+      speed: constituentSpeed(name),
+    });
+  }
+
+  return terms;
+}
+
+function evaluate(datum: number, terms: PreparedTerm[], refTime: number, t: number): number {
+  const hours = (t - refTime) / HOUR_MS;
+  let level = datum;
+  for (const term of terms) {
+    level += term.amplitude * Math.cos((term.phase + term.speed * hours) * D2R);
+  }
+  return level;
+}
+
+export function harmonicLevel(constants: HarmonicConstants, time: number): number {
+  return evaluate(constants.datum, prepare(constants, time), time, time);
+}
+
+/** Continuous predicted level from `start` to `end` (epoch ms). */
+export function harmonicSeries(
+  constants: HarmonicConstants,
+  start: number,
+  end: number,
+  step: number = SERIES_STEP
+): LevelPoint[] {
+  const ref = (start + end) / 2;
+  const terms = prepare(constants, ref);
+  const points: LevelPoint[] = [];
+  for (let t = start; t < end; t += step) {
+    points.push({ time: t, level: evaluate(constants.datum, terms, ref, t) });
+  }
+  points.push({ time: end, level: evaluate(constants.datum, terms, ref, end) });
+  return points;
+}
+
+/** High and low waters between `start` and `end`, located from the harmonic curve. */
+export function harmonicEvents(
+  constants: HarmonicConstants,
+  start: number,
+  end: number
+): TidalEvent[] {
+  const ref = (start + end) / 2;
+  const terms = prepare(constants, ref);
+  const at = (t: number) => evaluate(constants.datum, terms, ref, t);
+
+  const events: TidalEvent[] = [];
+  let prev = at(start - EVENT_STEP);
+  let curr = at(start);
+
+  for (let t = start; t <= end; t += EVENT_STEP) {
+    const next = at(t + EVENT_STEP);
+    const isHigh = curr > prev && curr >= next;
+    const isLow = curr < prev && curr <= next;
+
+    if (isHigh || isLow) {
+      // Refine with a parabola through the three samples
+      const denom = prev - 2 * curr + next;
+      const shift = denom !== 0 ? (0.5 * (prev - next)) / denom : 0;
+      const time = t + shift * EVENT_STEP;
+      const event: TidalEvent = { type: isHigh ? 'high' : 'low', time: new Date(time), level: at(time), harmonic: true };
+
+      const last = events[events.length - 1];
+      if (last && (last.type === event.type || Math.abs(last.level - event.level) < MIN_EVENT_RANGE)) {
+        // Double turn or a shallow-water stand: keep the more extreme of the pair
+        if (last.type === event.type) {
+          const moreExtreme = event.type === 'high' ? event.level > last.level : event.level < last.level;
+          if (moreExtreme) events[events.length - 1] = event;
+        } else {
+          events.pop();
+        }
+      } else {
+        events.push(event);
+      }
+    }
+
+    prev = curr;
+    curr = next;
+  }
+
+  return events;
+}
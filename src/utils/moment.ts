@@ -0,0 +1,66 @@
+import type { TideData, TideReading, TideState, TidalEvent } from '../types';
+import { interpolatePredictions, levelAtTime, padPredictions } from './predictions';
+
+// Tide conditions at an arbitrary moment rather than "now": measured where the
+// stored readings cover it, predicted everywhere else.
+
+const MAX_READING_GAP_MS = 45 * 60 * 1000; // don't interpolate across a gauge outage
+const SLACK_WINDOW_MS = 20 * 60 * 1000;    // as in deriveTideState
+const EVENT_SPAN_MS = 14 * 3600 * 1000;    // a couple of turns either side
+const CURVE_SPAN_MS = 3600 * 1000;
+
+export interface MomentReadout {
+  time: Date;
+  level: number; // mAOD
+  source: 'observed' | 'predicted';
+  tideState: TideState;
+  events: TidalEvent[]; // highs and lows around `time`
+}
+
+function observedLevelAt(readings: TideReading[], t: number): number | null {
+  for (let i = 0; i < readings.length - 1; i++) {
+    const a = readings[i].time.getTime();
+    const b = readings[i + 1].time.getTime();
+    if (a > t) return null;
+    if (b < t) continue;
+    if (b - a > MAX_READING_GAP_MS) return null;
+    const frac = b > a ? (t - a) / (b - a) : 0;
+    return readings[i].level + (readings[i + 1].level - readings[i].level) * frac;
+  }
+  return null;
+}
+
+function tideStateAt(events: TidalEvent[], t: number): TideState {
+  let last: TidalEvent | null = null;
+  let next: TidalEvent | null = null;
+  for (const e of events) {
+    if (e.time.getTime() <= t) last = e;
+    else if (!next) next = e;
+  }
+
+  if (last && t - last.time.getTime() < SLACK_WINDOW_MS) return last.type === 'high' ? 'high_slack' : 'low_slack';
+  if (next && next.time.getTime() - t < SLACK_WINDOW_MS) return next.type === 'high' ? 'high_slack' : 'low_slack';
+  if (last) return last.type === 'low' ? 'rising' : 'falling';
+  return next?.type === 'low' ? 'falling' : 'rising';
+}
+
+/** Level, tide state and nearby turns at `time` (epoch ms), or null if nothing covers it. */
+export function momentReadout(data: TideData, time: number): MomentReadout | null {
+  const { readings, predictions, harmonics } = data;
+  const events = padPredictions(predictions, time - EVENT_SPAN_MS, time + EVENT_SPAN_MS, harmonics);
+
+  const observed = observedLevelAt(readings, time);
+  const level = observed ?? levelAtTime(
+    interpolatePredictions(predictions, time - CURVE_SPAN_MS, time + CURVE_SPAN_MS, harmonics),
+    time
+  );
+  if (level === null) return null;
+
+  return {
+    time: new Date(time),
+    level,
+    source: observed !== null ? 'observed' : 'predicted',
+    tideState: tideStateAt(events, time),
+    events,
+  };
+}
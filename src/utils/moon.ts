@@ -0,0 +1,106 @@
+import type { HarmonicConstants, MoonPhaseName, SpringNeapState, TidalEvent } from '../types';
+import { astronomicalArguments, normalizeDegrees } from './astronomy';
+import { constituentSpeed } from './harmonics';
+import { dayRange, rangeBounds, rangeFraction } from './tideTable';
+
+// Lunar phase and the spring/neap cycle. Springs follow new and full moon,
+// neaps the quarters — each a couple of days late, the "age of the tide",
+// which the S2/M2 phase difference gives us per station.
+
+const D2R = Math.PI / 180;
+const SYNODIC_DAYS = 29.530589;
+const DEG_PER_DAY = 360 / SYNODIC_DAYS;
+const DEFAULT_TIDE_AGE_DAYS = 2; // typical for the outer estuary and London
+
+const PHASE_NAMES: MoonPhaseName[] = [
+  'New moon', 'Waxing crescent', 'First quarter', 'Waxing gibbous',
+  'Full moon', 'Waning gibbous', 'Last quarter', 'Waning crescent',
+];
+
+/**
+ * Moon–sun elongation in degrees (0 = new, 180 = full). Mean longitudes plus
+ * the largest periodic terms (equation of centre, evection, variation and the
+ * sun's equation of centre) — good to a few hours of phase.
+ */
+export function lunarElongation(time: number): number {
+  const { s, h, p, p1 } = astronomicalArguments(time);
+  const D = (s - h) * D2R;
+  const moonAnomaly = (s - p) * D2R;
+  const sunAnomaly = (h - p1) * D2R;
+  return normalizeDegrees(
+    (s - h) +
+    6.289 * Math.sin(moonAnomaly) +
+    1.274 * Math.sin(2 * D - moonAnomaly) +
+    0.658 * Math.sin(2 * D) -
+    1.915 * Math.sin(sunAnomaly)
+  );
+}
+
+export function moonPhaseName(elongation: number): MoonPhaseName {
+  return PHASE_NAMES[Math.round(elongation / 45) % 8];
+}
+
+/** Fraction of the disc lit, 0..1. */
+export function moonIllumination(elongation: number): number {
+  return (1 - Math.cos(elongation * D2R)) / 2;
+}
+
+/** Days between new/full moon and the springs that follow, from the S2–M2 phase lag. */
+export function tideAgeDays(harmonics: HarmonicConstants | null): number {
+  const m2 = harmonics?.constituents.M2;
+  const s2 = harmonics?.constituents.S2;
+  if (!m2 || !s2) return DEFAULT_TIDE_AGE_DAYS;
+  const lag = normalizeDegrees(s2[1] - m2[1]);
+  return lag / (constituentSpeed('S2') - constituentSpeed('M2')) / 24;
+}
+
+export interface SpringNeapPhase {
+  position: number;      // 0 = neaps, 1 = springs
+  daysToSprings: number;
+  daysToNeaps: number;
+}
+
+export function springNeapPhase(time: number, harmonics: HarmonicConstants | null): SpringNeapPhase {
+  const age = tideAgeDays(harmonics);
+  // Where the cycle is now, counting the tide's lag behind the moon
+  const lagged = normalizeDegrees(lunarElongation(time) - age * DEG_PER_DAY);
+  const half = lagged % 180; // springs at 0, neaps at 90
+
+  return {
+    position: (1 + Math.cos(2 * lagged * D2R)) / 2,
+    daysToSprings: ((180 - half) % 180) / DEG_PER_DAY,
+    daysToNeaps: (normalizeDegrees(90 - half) % 180) / DEG_PER_DAY,
+  };
+}
+
+/** Moon and spring/neap picture for today, with today's range read off the predictions. */
+export function springNeapState(
+  events: TidalEvent[],
+  harmonics: HarmonicConstants | null,
+  now: number = Date.now()
+): SpringNeapState {
+  const elongation = lunarElongation(now);
+  const phase = springNeapPhase(now, harmonics);
+
+  const midnight = new Date(now);
+  midnight.setHours(0, 0, 0, 0);
+  const tomorrow = new Date(midnight);
+  tomorrow.setDate(midnight.getDate() + 1);
+  const todayRange = dayRange(events, midnight.getTime(), tomorrow.getTime());
+
+  // Measured against the station's own neap/spring ranges when we have them;
+  // otherwise the lunar cycle alone
+  const bounds = rangeBounds(harmonics, []);
+  const rangeFactor = todayRange !== null && bounds
+    ? Math.max(0, Math.min(1, rangeFraction(todayRange, bounds)))
+    : phase.position;
+
+  return {
+    moonPhase: moonPhaseName(elongation),
+    illumination: moonIllumination(elongation),
+    lunarAge: elongation / DEG_PER_DAY,
+    ...phase,
+    todayRange,
+    rangeFactor,
+  };
+}
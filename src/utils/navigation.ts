@@ -0,0 +1,82 @@
+import type { HarmonicConstants, NavigationSettings, NavigationWindow, StreamDirection, TidalEvent } from '../types';
+import { interpolatePredictions, padPredictions } from './predictions';
+
+// When a boat can go out: enough water over the launch point for its draft,
+// and the stream with it (flood carries you upstream, ebb down) or weak
+// enough around slack not to matter. Windows are runs of the predicted curve
+// where all of that holds.
+
+const MIN_WINDOW_MS = 15 * 60 * 1000; // anything shorter isn't an outing
+
+export const DEFAULT_NAVIGATION: NavigationSettings = {
+  enabled: false,
+  draft: 0.5,
+  launchHeight: 0,
+  trip: 'either',
+  slackMinutes: 30,
+};
+
+function favourable(stream: StreamDirection, trip: NavigationSettings['trip']): boolean {
+  switch (trip) {
+    case 'upstream': return stream !== 'ebb';
+    case 'downstream': return stream !== 'flood';
+    case 'either': return true;
+  }
+}
+
+/** Chart datum in mAOD, or the lowest predicted low where the station has none. */
+export function launchDatum(cdToMaod: number | null, events: TidalEvent[]): number {
+  if (cdToMaod !== null) return cdToMaod;
+  const lows = events.filter((e) => e.type === 'low').map((e) => e.level);
+  return lows.length > 0 ? Math.min(...lows) : 0;
+}
+
+/**
+ * Windows between `start` and `end` (epoch ms). `datum` is chart datum in
+ * mAOD — the station's own where known, otherwise the caller's best guess.
+ */
+export function navigationWindows(
+  events: TidalEvent[],
+  harmonics: HarmonicConstants | null,
+  datum: number,
+  settings: NavigationSettings,
+  start: number,
+  end: number
+): NavigationWindow[] {
+  const points = interpolatePredictions(events, start, end, harmonics);
+  if (points.length < 2) return [];
+
+  const turns = padPredictions(events, start, end, harmonics).map((e) => e.time.getTime());
+  const slackMs = settings.slackMinutes * 60_000;
+  const floor = datum + settings.launchHeight;
+
+  const windows: NavigationWindow[] = [];
+  let open: NavigationWindow | null = null;
+
+  const close = (at: number) => {
+    if (open && at - open.start.getTime() >= MIN_WINDOW_MS) {
+      windows.push({ ...open, end: new Date(at) });
+    }
+    open = null;
+  };
+
+  points.forEach((p, i) => {
+    const next = points[Math.min(i + 1, points.length - 1)];
+    const prev = points[Math.max(i - 1, 0)];
+    const stream: StreamDirection = turns.some((t) => Math.abs(t - p.time) <= slackMs)
+      ? 'slack'
+      : next.level - prev.level >= 0 ? 'flood' : 'ebb';
+    const depth = p.level - floor;
+
+    if (depth >= settings.draft && favourable(stream, settings.trip)) {
+      if (!open) open = { start: new Date(p.time), end: new Date(p.time), streams: [], minDepth: depth };
+      if (open.streams[open.streams.length - 1] !== stream) open.streams.push(stream);
+      open.minDepth = Math.min(open.minDepth, depth);
+    } else {
+      close(p.time);
+    }
+  });
+  close(points[points.length - 1].time);
+
+  return windows;
+}
@@ -0,0 +1,170 @@
+import type { HarmonicConstants, TidalEvent } from '../types';
+import { harmonicEvents, harmonicLevel, harmonicSeries } from './harmonics';
+
+// Predicted level curve. Published Admiralty high/low events are joined with
+// half-cosines wherever they exist; a station's harmonic model only extends
+// the curve beyond them, eased onto the first and last published turns.
+
+const HALF_CYCLE = 6.2 * 3600 * 1000;
+const BLEND_MS = 2 * HALF_CYCLE; // how far from a published turn the harmonic curve is pulled onto it
+const SERIES_STEP = 3 * 60 * 1000;
+
+export interface LevelPoint {
+  time: number; // epoch ms
+  level: number; // mAOD
+}
+
+export function padPredictions(
+  predictions: TidalEvent[],
+  start: number,
+  end: number,
+  harmonics: HarmonicConstants | null = null
+): TidalEvent[] {
+  if (harmonics) return padFromHarmonics(predictions, start, end, harmonics);
+  if (predictions.length < 2) return predictions;
+
+  const padded = [...predictions];
+
+  // Pad start
+  while (padded.length > 0 && padded[0].time.getTime() > start) {
+    const first = padded[0];
+    const oppositeType = first.type === 'high' ? 'low' : 'high';
+    const nearest = padded.find((e) => e.type === oppositeType);
+    const level = nearest ? nearest.level : first.level;
+    padded.unshift({
+      type: oppositeType,
+      time: new Date(first.time.getTime() - HALF_CYCLE),
+      level,
+    });
+  }
+
+  // Pad end
+  while (padded.length > 0 && padded[padded.length - 1].time.getTime() < end) {
+    const last = padded[padded.length - 1];
+    const oppositeType = last.type === 'high' ? 'low' : 'high';
+    const nearest = [...padded].reverse().find((e) => e.type === oppositeType);
+    const level = nearest ? nearest.level : last.level;
+    padded.push({
+      type: oppositeType,
+      time: new Date(last.time.getTime() + HALF_CYCLE),
+      level,
+    });
+  }
+
+  return padded;
+}
+
+// Extend Admiralty events with harmonic highs/lows outside the range they cover.
+// Harmonic events from an earlier pass are dropped and regenerated for this range.
+function padFromHarmonics(
+  predictions: TidalEvent[],
+  start: number,
+  end: number,
+  harmonics: HarmonicConstants
+): TidalEvent[] {
+  const rangeStart = start - HALF_CYCLE;
+  const rangeEnd = end + HALF_CYCLE;
+  const published = predictions.filter((e) => !e.harmonic);
+  if (published.length === 0) return harmonicEvents(harmonics, rangeStart, rangeEnd);
+
+  const first = published[0].time.getTime();
+  const last = published[published.length - 1].time.getTime();
+  // Leave a gap of a few hours so a harmonic turn can't duplicate an Admiralty one
+  const margin = HALF_CYCLE / 2;
+
+  // Only the range asked for: a view pinned months ahead shouldn't generate every turn up to it
+  const before = rangeStart < first - margin
+    ? harmonicEvents(harmonics, rangeStart, Math.min(first - margin, rangeEnd))
+    : [];
+  const after = rangeEnd > last + margin
+    ? harmonicEvents(harmonics, Math.max(last + margin, rangeStart), rangeEnd)
+    : [];
+
+  return [...before, ...published, ...after];
+}
+
+export function interpolatePredictions(
+  predictions: TidalEvent[],
+  start: number,
+  end: number,
+  harmonics: HarmonicConstants | null = null
+): LevelPoint[] {
+  if (!harmonics) return interpolateEvents(predictions, start, end);
+
+  const published = predictions.filter((e) => !e.harmonic);
+  if (published.length < 2) return harmonicSeries(harmonics, start, end);
+
+  const first = published[0];
+  const last = published[published.length - 1];
+  const firstTime = first.time.getTime();
+  const lastTime = last.time.getTime();
+
+  const points: LevelPoint[] = [];
+  if (start < firstTime) {
+    points.push(...easedSeries(harmonics, start, Math.min(end, firstTime), first));
+  }
+  if (end > firstTime && start < lastTime) {
+    // The series above already ends on the first published turn
+    const inner = interpolateEvents(published, Math.max(start, firstTime), Math.min(end, lastTime));
+    points.push(...(start < firstTime ? inner.slice(1) : inner));
+  }
+  if (end > lastTime) {
+    const after = easedSeries(harmonics, Math.max(start, lastTime), end, last);
+    points.push(...(start < lastTime ? after.slice(1) : after));
+  }
+  return points;
+}
+
+// Harmonic curve from `start` to `end`, offset so it meets `join` exactly and
+// fading back to the pure model over BLEND_MS
+function easedSeries(harmonics: HarmonicConstants, start: number, end: number, join: TidalEvent): LevelPoint[] {
+  const joinTime = join.time.getTime();
+  const offset = join.level - harmonicLevel(harmonics, joinTime);
+  return harmonicSeries(harmonics, start, end).map(({ time, level }) => ({
+    time,
+    level: level + offset * Math.max(0, 1 - Math.abs(time - joinTime) / BLEND_MS),
+  }));
+}
+
+// Half-cosines between high/low events, padded out to the range if they fall short
+function interpolateEvents(predictions: TidalEvent[], start: number, end: number): LevelPoint[] {
+  const padded = padPredictions(predictions, start, end);
+  if (padded.length < 2) return [];
+
+  const points: LevelPoint[] = [];
+  const step = SERIES_STEP;
+
+  for (let i = 0; i < padded.length - 1; i++) {
+    const a = padded[i];
+    const b = padded[i + 1];
+    const tA = a.time.getTime();
+    const tB = b.time.getTime();
+
+    for (let t = tA; t < tB; t += step) {
+      if (t < start || t > end) continue;
+      const frac = (t - tA) / (tB - tA);
+      const cos = (1 - Math.cos(frac * Math.PI)) / 2;
+      const level = a.level + (b.level - a.level) * cos;
+      points.push({ time: t, level });
+    }
+  }
+
+  const last = padded[padded.length - 1];
+  if (last.time.getTime() >= start && last.time.getTime() <= end) {
+    points.push({ time: last.time.getTime(), level: last.level });
+  }
+
+  return points;
+}
+
+/** Linearly sample a time-sorted level series at time `t` (null if outside it). */
+export function levelAtTime(points: LevelPoint[], t: number): number | null {
+  for (let i = 0; i < points.length - 1; i++) {
+    if (points[i].time <= t && points[i + 1].time >= t) {
+      const span = points[i + 1].time - points[i].time;
+      const frac = span > 0 ? (t - points[i].time) / span : 0;
+      return points[i].level + (points[i + 1].level - points[i].level) * frac;
+    }
+  }
+  return null;
+}
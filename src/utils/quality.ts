@@ -0,0 +1,107 @@
+import type { DataQuality, HarmonicConstants, PredictionsIssue, QualityIssue, TideReading, TidalEvent } from '../types';
+import { interpolatePredictions } from './predictions';
+
+// Sanity checks on gauge data before we trust it. EA gauges go quiet, stick on
+// one value, and occasionally report a single wild value — none of which should
+// be shown as if the river were doing it.
+
+const STALE_AFTER_MS = 45 * 60 * 1000;        // EA normally posts every 15 min
+const STALE_FLOOR_MS = 3 * 3600 * 1000;       // confidence bottoms out by here
+const FLATLINE_WINDOW_MS = 2 * 3600 * 1000;
+const FLATLINE_TOLERANCE = 0.01;               // m — observed range counted as "not moving"
+const FLATLINE_EXPECTED = 0.3;                 // m — predicted movement that rules out slack
+const SPIKE_WINDOW_MS = 24 * 3600 * 1000;
+const SPIKE_THRESHOLD = 0.5;                   // m off both neighbours
+const MAX_RATE = 3;                            // m/hour — beyond any real Thames tide
+const RATE_WINDOW_MS = 2 * 3600 * 1000;
+
+function findSpikes(readings: TideReading[], since: number): number[] {
+  const spikes: number[] = [];
+  for (let i = 1; i < readings.length - 1; i++) {
+    const r = readings[i];
+    if (r.time.getTime() < since) continue;
+    const prev = readings[i - 1].level;
+    const next = readings[i + 1].level;
+    const offPrev = r.level - prev;
+    const offNext = r.level - next;
+    // Off both neighbours in the same direction, while they agree with each other
+    if (
+      Math.abs(offPrev) > SPIKE_THRESHOLD &&
+      Math.abs(offNext) > SPIKE_THRESHOLD &&
+      Math.sign(offPrev) === Math.sign(offNext) &&
+      Math.abs(prev - next) < SPIKE_THRESHOLD
+    ) {
+      spikes.push(r.time.getTime());
+    }
+  }
+  return spikes;
+}
+
+function hasImpossibleRate(readings: TideReading[], since: number): boolean {
+  for (let i = 1; i < readings.length; i++) {
+    const a = readings[i - 1];
+    const b = readings[i];
+    if (b.time.getTime() < since) continue;
+    const hours = (b.time.getTime() - a.time.getTime()) / 3600_000;
+    if (hours > 0 && Math.abs(b.level - a.level) / hours > MAX_RATE) return true;
+  }
+  return false;
+}
+
+function isFlatlined(
+  readings: TideReading[],
+  predictions: TidalEvent[],
+  harmonics: HarmonicConstants | null,
+  now: number
+): boolean {
+  const start = now - FLATLINE_WINDOW_MS;
+  const recent = readings.filter((r) => r.time.getTime() >= start);
+  if (recent.length < 4) return false;
+
+  const levels = recent.map((r) => r.level);
+  if (Math.max(...levels) - Math.min(...levels) > FLATLINE_TOLERANCE) return false;
+
+  // A genuinely flat river (Richmond's half-tide lock, a long stand) is fine —
+  // only flag it if the tide should have moved over the same period
+  const predicted = interpolatePredictions(predictions, start, now, harmonics).map((p) => p.level);
+  if (predicted.length < 2) return false;
+  return Math.max(...predicted) - Math.min(...predicted) > FLATLINE_EXPECTED;
+}
+
+export function assessQuality(
+  readings: TideReading[],
+  predictions: TidalEvent[],
+  harmonics: HarmonicConstants | null,
+  predictionsIssue: PredictionsIssue | null = null,
+  now: number = Date.now()
+): DataQuality {
+  const latest = readings[readings.length - 1];
+  const latestReadingAt = latest ? latest.time : null;
+  const age = latest ? now - latest.time.getTime() : Infinity;
+
+  const spikeTimes = findSpikes(readings, now - SPIKE_WINDOW_MS);
+  const spikeSet = new Set(spikeTimes);
+  const clean = readings.filter((r) => !spikeSet.has(r.time.getTime()));
+
+  const issues: QualityIssue[] = [];
+  if (age > STALE_AFTER_MS) issues.push('stale');
+  if (isFlatlined(clean, predictions, harmonics, now)) issues.push('flatline');
+  if (spikeTimes.length > 0) issues.push('spike');
+  if (hasImpossibleRate(clean, now - RATE_WINDOW_MS)) issues.push('rate');
+
+  // Confidence drives how animated the visuals are: fades with age, halves on sensor faults
+  let confidence = 1;
+  if (age > STALE_AFTER_MS) {
+    const t = Math.min((age - STALE_AFTER_MS) / (STALE_FLOOR_MS - STALE_AFTER_MS), 1);
+    confidence = 1 - t * 0.7;
+  }
+  if (issues.includes('flatline') || issues.includes('rate')) confidence *= 0.5;
+
+  // Spikes are already dropped from what we derive from, so they don't taint the status
+  const status: DataQuality['status'] =
+    issues.includes('stale') ? 'stale'
+    : issues.includes('flatline') || issues.includes('rate') ? 'suspect'
+    : 'ok';
+
+  return { status, issues, predictionsIssue, latestReadingAt, spikeTimes, confidence };
+}
@@ -1,14 +1,43 @@
-// Simplified NOAA solar calculator for London (51.507°N, -0.079°W)
-// Returns today's sunrise and sunset as Date objects in local time.
+import type { Coordinates } from '../types';
 
-const LAT = 51.507;
-const LNG = -0.079;
-const ZENITH = 90.833; // official sunrise/sunset zenith
+// Simplified NOAA solar calculator. Coordinates default to central London;
+// pass a station's own for its sunrise, sunset and twilight.
+// Times are returned as Date objects in local time.
+
+export const LONDON: Coordinates = { lat: 51.507, long: -0.079 };
+
+// Solar zenith at each boundary: the sun's upper limb on the horizon (with
+// refraction), then 6°, 12° and 18° below it
+const ZENITH = {
+  sun: 90.833,
+  civil: 96,
+  nautical: 102,
+  astronomical: 108,
+} as const;
+
+// Elevations the theme blends across: full night once nautical twilight is
+// over, full day with the sun a little clear of the horizon
+const NIGHT_ELEVATION = -12;
+const DAY_ELEVATION = 6;
+
+const J2000_MS = Date.UTC(2000, 0, 1, 12, 0, 0);
 const D2R = Math.PI / 180;
 const R2D = 180 / Math.PI;
 
-function sunHourUTC(dayOfYear: number, rising: boolean): number {
-  const lngHour = LNG / 15;
+export interface SunTimes {
+  sunrise: Date;
+  sunset: Date;
+  // null when the sun doesn't get that far below the horizon (British midsummer nights)
+  civilDawn: Date | null;
+  civilDusk: Date | null;
+  nauticalDawn: Date | null;
+  nauticalDusk: Date | null;
+  astronomicalDawn: Date | null;
+  astronomicalDusk: Date | null;
+}
+
+function sunHourUTC(dayOfYear: number, rising: boolean, zenith: number, { lat, long }: Coordinates): number | null {
+  const lngHour = long / 15;
   const approxT = dayOfYear + ((rising ? 6 : 18) - lngHour) / 24;
 
   const M = 0.9856 * approxT - 3.289;
@@ -23,10 +52,10 @@ function sunHourUTC(dayOfYear: number, rising: boolean): number {
   const sinDec = 0.39782 * Math.sin(L * D2R);
   const cosDec = Math.cos(Math.asin(sinDec));
   const cosH =
-    (Math.cos(ZENITH * D2R) - sinDec * Math.sin(LAT * D2R)) /
-    (cosDec * Math.cos(LAT * D2R));
+    (Math.cos(zenith * D2R) - sinDec * Math.sin(lat * D2R)) /
+    (cosDec * Math.cos(lat * D2R));
 
-  if (cosH > 1 || cosH < -1) return rising ? 6 : 18; // polar edge case fallback
+  if (cosH > 1 || cosH < -1) return null; // sun never reaches this zenith today
 
   const H = rising
     ? 360 - R2D * Math.acos(cosH)
@@ -36,25 +65,61 @@ function sunHourUTC(dayOfYear: number, rising: boolean): number {
   return ((UT - lngHour) % 24 + 24) % 24;
 }
 
-export function getSunTimes(date: Date): { sunrise: Date; sunset: Date } {
+function atHour(date: Date, hourUTC: number | null): Date | null {
+  if (hourUTC === null) return null;
+  const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  d.setTime(d.getTime() + Math.round(hourUTC * 60) * 60_000);
+  return d;
+}
+
+export function getSunTimes(date: Date, coords: Coordinates = LONDON): SunTimes {
   const start = new Date(date.getFullYear(), 0, 1);
   const dayOfYear = Math.floor(
     (date.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)
   ) + 1;
 
-  const riseH = sunHourUTC(dayOfYear, true);
-  const setH = sunHourUTC(dayOfYear, false);
+  const at = (rising: boolean, zenith: number) => atHour(date, sunHourUTC(dayOfYear, rising, zenith, coords));
+
+  return {
+    // Polar edge case fallback: keep sunrise/sunset defined
+    sunrise: at(true, ZENITH.sun) ?? atHour(date, 6)!,
+    sunset: at(false, ZENITH.sun) ?? atHour(date, 18)!,
+    civilDawn: at(true, ZENITH.civil),
+    civilDusk: at(false, ZENITH.civil),
+    nauticalDawn: at(true, ZENITH.nautical),
+    nauticalDusk: at(false, ZENITH.nautical),
+    astronomicalDawn: at(true, ZENITH.astronomical),
+    astronomicalDusk: at(false, ZENITH.astronomical),
+  };
+}
+
+/** Sun's elevation above the horizon in degrees (low-precision USNO formulae). */
+export function sunElevation(date: Date, { lat, long }: Coordinates = LONDON): number {
+  const d = (date.getTime() - J2000_MS) / 86_400_000;
 
-  const sunrise = new Date(date);
-  sunrise.setHours(Math.floor(riseH), Math.round((riseH % 1) * 60), 0, 0);
+  const g = (357.529 + 0.98560028 * d) * D2R;        // mean anomaly
+  const q = 280.459 + 0.98564736 * d;                // mean longitude
+  const L = (q + 1.915 * Math.sin(g) + 0.020 * Math.sin(2 * g)) * D2R;
+  const e = (23.439 - 0.00000036 * d) * D2R;          // obliquity
 
-  const sunset = new Date(date);
-  sunset.setHours(Math.floor(setH), Math.round((setH % 1) * 60), 0, 0);
+  const ra = Math.atan2(Math.cos(e) * Math.sin(L), Math.cos(L));
+  const dec = Math.asin(Math.sin(e) * Math.sin(L));
+
+  const gmstHours = 18.697374558 + 24.06570982441908 * d;
+  const hourAngle = (gmstHours * 15 + long) * D2R - ra;
+
+  const sinEl = Math.sin(lat * D2R) * Math.sin(dec) + Math.cos(lat * D2R) * Math.cos(dec) * Math.cos(hourAngle);
+  return Math.asin(sinEl) * R2D;
+}
 
-  return { sunrise, sunset };
+/** 0 = night, 1 = day, easing through twilight as the sun climbs or sets. */
+export function daylightAt(date: Date = new Date(), coords: Coordinates = LONDON): number {
+  const t = (sunElevation(date, coords) - NIGHT_ELEVATION) / (DAY_ELEVATION - NIGHT_ELEVATION);
+  const c = Math.max(0, Math.min(1, t));
+  return c * c * (3 - 2 * c);
 }
 
-export function isDaytime(date: Date = new Date()): boolean {
-  const { sunrise, sunset } = getSunTimes(date);
+export function isDaytime(date: Date = new Date(), coords: Coordinates = LONDON): boolean {
+  const { sunrise, sunset } = getSunTimes(date, coords);
   return date >= sunrise && date < sunset;
 }
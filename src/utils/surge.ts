@@ -0,0 +1,64 @@
+import type { HarmonicConstants, SurgeAnalysis, TideReading, TidalEvent } from '../types';
+import { interpolatePredictions, levelAtTime } from './predictions';
+
+// Surge = observed level minus the predicted astronomical tide. Wind and
+// pressure push the Thames well off prediction, so the residual is what tells
+// you whether the printed high water can be trusted today.
+
+const LOOKBACK_MS = 3 * 3600 * 1000;     // residual window for level + trend
+const SMOOTH_COUNT = 4;                  // readings averaged for the current residual
+const MAX_EXTRAPOLATE_H = 2;             // cap on how far the trend is projected forward
+const LOOKAHEAD_MS = 14 * 3600 * 1000;   // far enough to always contain the next high
+
+export function analyseSurge(
+  readings: TideReading[],
+  predictions: TidalEvent[],
+  harmonics: HarmonicConstants | null = null,
+  now: number = Date.now()
+): SurgeAnalysis | null {
+  if (readings.length < 2 || (predictions.length < 2 && !harmonics)) return null;
+
+  const start = now - LOOKBACK_MS;
+  const curve = interpolatePredictions(predictions, start, now + LOOKAHEAD_MS, harmonics);
+  if (curve.length < 2) return null;
+
+  // Residual at each recent reading that falls on the prediction curve
+  const residuals: { hours: number; value: number }[] = [];
+  for (const r of readings) {
+    const t = r.time.getTime();
+    if (t < start || t > now) continue;
+    const predicted = levelAtTime(curve, t);
+    if (predicted === null) continue;
+    residuals.push({ hours: (t - now) / 3600_000, value: r.level - predicted });
+  }
+  if (residuals.length < 2) return null;
+
+  const recent = residuals.slice(-SMOOTH_COUNT);
+  const residual = recent.reduce((sum, r) => sum + r.value, 0) / recent.length;
+
+  // Least-squares slope of residual against time (m/hour)
+  const meanT = residuals.reduce((sum, r) => sum + r.hours, 0) / residuals.length;
+  const meanV = residuals.reduce((sum, r) => sum + r.value, 0) / residuals.length;
+  let num = 0;
+  let den = 0;
+  for (const r of residuals) {
+    num += (r.hours - meanT) * (r.value - meanV);
+    den += (r.hours - meanT) ** 2;
+  }
+  const trend = den > 0 ? num / den : 0;
+
+  // Project the residual to the next high, but only trust the trend briefly —
+  // surges rarely keep building at the same rate over a whole half-cycle
+  const next = predictions.find((e) => e.type === 'high' && e.time.getTime() > now);
+  let nextHigh: SurgeAnalysis['nextHigh'] = null;
+  if (next) {
+    const hoursAhead = Math.min((next.time.getTime() - now) / 3600_000, MAX_EXTRAPOLATE_H);
+    nextHigh = {
+      time: next.time,
+      predictedLevel: next.level,
+      adjustedLevel: next.level + residual + trend * hoursAhead,
+    };
+  }
+
+  return { residual, trend, nextHigh };
+}
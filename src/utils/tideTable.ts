@@ -0,0 +1,85 @@
+import type { HarmonicConstants, TidalEvent } from '../types';
+
+// Day-by-day table of highs and lows, with each day's range placed between
+// neaps and springs.
+
+export type RangeClass = 'spring' | 'mid' | 'neap';
+
+export interface TideTableDay {
+  date: Date; // local midnight
+  events: TidalEvent[];
+  range: number | null; // m, largest high-to-low swing starting that day
+  rangeClass: RangeClass | null;
+}
+
+/** Largest swing between consecutive turns, counting pairs that start in [start, end). */
+export function dayRange(all: TidalEvent[], start: number, end: number): number | null {
+  let range: number | null = null;
+  for (let i = 0; i < all.length - 1; i++) {
+    const t = all[i].time.getTime();
+    if (t < start || t >= end || all[i].type === all[i + 1].type) continue;
+    const swing = Math.abs(all[i + 1].level - all[i].level);
+    range = range === null ? swing : Math.max(range, swing);
+  }
+  return range;
+}
+
+/**
+ * Typical neap and spring ranges: from M2 and S2 beating against each other
+ * when the harmonic constants are known, otherwise from the spread of the
+ * ranges being classified.
+ */
+export function rangeBounds(harmonics: HarmonicConstants | null, ranges: number[]): [number, number] | null {
+  const m2 = harmonics?.constituents.M2?.[0];
+  const s2 = harmonics?.constituents.S2?.[0];
+  if (m2 !== undefined && s2 !== undefined) return [2 * (m2 - s2), 2 * (m2 + s2)];
+
+  if (ranges.length < 2) return null;
+  const min = Math.min(...ranges);
+  const max = Math.max(...ranges);
+  return max - min > 0.5 ? [min, max] : null; // too little spread to call it either way
+}
+
+/** Where a range sits between neaps (0) and springs (1); can run past either end. */
+export function rangeFraction(range: number, bounds: [number, number]): number {
+  const [neap, spring] = bounds;
+  return (range - neap) / (spring - neap);
+}
+
+export function classifyRange(range: number, bounds: [number, number]): RangeClass {
+  const frac = rangeFraction(range, bounds);
+  return frac >= 0.7 ? 'spring' : frac <= 0.3 ? 'neap' : 'mid';
+}
+
+export function buildTideTable(
+  events: TidalEvent[],
+  harmonics: HarmonicConstants | null,
+  now: number = Date.now(),
+  days: number = 7
+): TideTableDay[] {
+  const first = new Date(now);
+  first.setHours(0, 0, 0, 0);
+
+  const table: TideTableDay[] = [];
+  for (let d = 0; d < days; d++) {
+    // Step by calendar day so DST changes don't skew midnight
+    const date = new Date(first);
+    date.setDate(first.getDate() + d);
+    const next = new Date(date);
+    next.setDate(date.getDate() + 1);
+    const start = date.getTime();
+    const end = next.getTime();
+
+    const dayEvents = events.filter((e) => e.time.getTime() >= start && e.time.getTime() < end);
+    if (dayEvents.length === 0) continue; // a gap in the predictions, or past their end
+    table.push({ date, events: dayEvents, range: dayRange(events, start, end), rangeClass: null });
+  }
+
+  const bounds = rangeBounds(harmonics, table.flatMap((d) => (d.range !== null ? [d.range] : [])));
+  if (bounds) {
+    for (const day of table) {
+      if (day.range !== null) day.rangeClass = classifyRange(day.range, bounds);
+    }
+  }
+  return table;
+}